@@ -13,6 +13,7 @@ import "./lib/apiClient";
 import Layout from "./components/Layout";
 import ErrorBoundary from "./components/ErrorBoundary";
 import Dictionary from "./pages/Dictionary";
+import WordPage from "./pages/WordPage";
 import Characters from "./pages/Characters";
 import Quiz from "./pages/Quiz";
 import Favorites from "./pages/Favorites";
@@ -21,7 +22,13 @@ import About from "./pages/About";
 import NotFound from "./pages/NotFound";
 
 // Initialize theme on app start
-import { initializeTheme } from "@/lib/storage";
+import {
+  initializeTheme,
+  FavoritesManager,
+  PreferencesManager,
+} from "@/lib/storage";
+import { useDictionary } from "@/hooks/use-dictionary";
+import { audioUrlsFor, syncOfflineAudio } from "@/lib/offlineAudio";
 
 const queryClient = new QueryClient();
 
@@ -44,6 +51,17 @@ function AppInitializer() {
     }
   }, []);
 
+  // Tops up the offline audio chosen in Settings as words and favorites
+  // change. Sample words stand in until the real list loads, so skip those.
+  const { words, source } = useDictionary();
+  useEffect(() => {
+    const scope = PreferencesManager.get().offline_audio;
+    if (scope === "off" || source === "sample" || !navigator.onLine) return;
+    syncOfflineAudio(audioUrlsFor(words, scope, FavoritesManager.get())).catch(
+      (e) => console.warn("Offline audio sync failed:", e),
+    );
+  }, [words, source]);
+
   return null;
 }
 
@@ -58,6 +76,7 @@ const App = () => (
           <Layout>
             <Routes>
               <Route path="/" element={<Dictionary />} />
+              <Route path="/word/:id" element={<WordPage />} />
               <Route path="/characters" element={<Characters />} />
               <Route path="/quiz" element={<Quiz />} />
               <Route path="/favorites" element={<Favorites />} />
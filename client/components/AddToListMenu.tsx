@@ -0,0 +1,98 @@
+/**
+ * Add to List Menu
+ * Puts a word in, or takes it out of, the named word lists kept on this
+ * device, and starts a new list with it.
+ */
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ListPlus, Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+import { WordCollection } from "@shared/types";
+import { CollectionsManager } from "@/lib/storage";
+
+interface AddToListMenuProps {
+  wordId: string;
+  /** Icon-only trigger, for compact cards */
+  iconOnly?: boolean;
+  className?: string;
+}
+
+export default function AddToListMenu({
+  wordId,
+  iconOnly,
+  className,
+}: AddToListMenuProps) {
+  const [collections, setCollections] = useState<WordCollection[]>([]);
+  const [inLists, setInLists] = useState<string[]>([]);
+
+  // Read on open, since lists can change on other pages
+  const refresh = () => {
+    setCollections(CollectionsManager.getAll());
+    setInLists(CollectionsManager.listsContaining(wordId));
+  };
+
+  const handleToggle = (collectionId: string, checked: boolean) => {
+    if (checked) CollectionsManager.addWord(collectionId, wordId);
+    else CollectionsManager.removeWord(collectionId, wordId);
+    refresh();
+  };
+
+  const handleNewList = () => {
+    const name = prompt("Name of the new list");
+    if (!name?.trim()) return;
+    const collection = CollectionsManager.create(name);
+    CollectionsManager.addWord(collection.id, wordId);
+    refresh();
+  };
+
+  return (
+    // Keeps clicks in the menu from also selecting the card it sits on
+    <div onClick={(e) => e.stopPropagation()}>
+      <DropdownMenu onOpenChange={(open) => open && refresh()}>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant={iconOnly ? "ghost" : "outline"}
+            size="sm"
+            className={cn(iconOnly && "h-8 w-8 p-0", className)}
+            title="Add to list…"
+          >
+            <ListPlus className={cn("h-4 w-4", !iconOnly && "mr-2")} />
+            {!iconOnly && "Add to list…"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Word lists</DropdownMenuLabel>
+          {collections.map((collection) => (
+            <DropdownMenuCheckboxItem
+              key={collection.id}
+              checked={inLists.includes(collection.id)}
+              onCheckedChange={(checked) =>
+                handleToggle(collection.id, checked === true)
+              }
+              // Stay open so the word can go in several lists at once
+              onSelect={(e) => e.preventDefault()}
+            >
+              <span className="truncate">{collection.name}</span>
+            </DropdownMenuCheckboxItem>
+          ))}
+          {collections.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem onSelect={handleNewList}>
+            <Plus className="h-4 w-4 mr-2" />
+            New list…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
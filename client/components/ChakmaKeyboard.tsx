@@ -0,0 +1,219 @@
+/**
+ * Chakma Virtual Keyboard
+ * On-screen keys for typing Chakma script into any text input. Keys come
+ * from the character list; vowel signs and viramas only attach to a letter.
+ * Also holds the toggle for romanized typing (see useTransliteration).
+ */
+
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Delete, Keyboard, Languages } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  buildKeyboardLayout,
+  canAttachMark,
+  deleteBackward,
+  insertKey,
+  type KeyboardKey,
+  type TextEdit,
+} from "@/lib/chakmaKeyboard";
+
+import { Character } from "@shared/types";
+import { sampleCharacters } from "@shared/sampleData";
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+interface ChakmaKeyboardProps {
+  /** Input the keyboard types into; its selection decides where keys go */
+  inputRef: React.RefObject<TextField>;
+  value: string;
+  onChange: (value: string) => void;
+  characters?: Character[];
+  className?: string;
+}
+
+// Marks are shown on a dotted circle, the usual placeholder for a base
+const DOTTED_CIRCLE = "◌";
+
+export function ChakmaKeyboard({
+  inputRef,
+  value,
+  onChange,
+  characters = sampleCharacters,
+  className,
+}: ChakmaKeyboardProps) {
+  const layout = useMemo(() => buildKeyboardLayout(characters), [characters]);
+  // Re-render on caret moves so mark keys enable and disable correctly
+  const [caret, setCaret] = useState<number | null>(null);
+
+  const selection = () => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? value.length;
+    return { start, end: input?.selectionEnd ?? start };
+  };
+
+  const apply = (edit: TextEdit | null) => {
+    if (!edit) return;
+    onChange(edit.value);
+    setCaret(edit.caret);
+    // Restore focus and caret once React has rendered the new value
+    requestAnimationFrame(() => {
+      const input = inputRef.current;
+      input?.focus();
+      input?.setSelectionRange(edit.caret, edit.caret);
+    });
+  };
+
+  const press = (key: string) => {
+    const { start, end } = selection();
+    apply(insertKey(value, start, end, key));
+  };
+
+  const before = value.slice(0, caret ?? selection().start);
+
+  const renderKey = (key: KeyboardKey, isMark = false) => {
+    const disabled = isMark && !canAttachMark(before, key.value);
+    return (
+      <button
+        key={key.value}
+        type="button"
+        disabled={disabled}
+        // Keep focus (and the caret) in the input while tapping keys
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => press(key.value)}
+        title={key.label}
+        className={cn(
+          "flex flex-col items-center justify-center rounded-md border bg-background px-1 py-1 min-w-[2.5rem] transition-colors hover:bg-muted",
+          "disabled:opacity-40 disabled:pointer-events-none",
+        )}
+      >
+        <span className="font-chakma text-xl leading-tight">
+          {isMark ? DOTTED_CIRCLE + key.value : key.value}
+        </span>
+        {key.label && (
+          <span className="text-[10px] text-muted-foreground leading-none">
+            {key.label}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  const rows: [KeyboardKey[], boolean][] = [
+    [layout.letters, false],
+    [layout.marks, true],
+    [[...layout.digits, ...layout.other], false],
+  ];
+
+  return (
+    <div
+      className={cn("space-y-2", className)}
+      onMouseUp={() => setCaret(null)}
+    >
+      {rows.map(
+        ([keys, isMark], i) =>
+          keys.length > 0 && (
+            <div key={i} className="flex flex-wrap gap-1">
+              {keys.map((key) => renderKey(key, isMark))}
+            </div>
+          ),
+      )}
+      <div className="flex gap-1">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => press(" ")}
+        >
+          Space
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => {
+            const { start, end } = selection();
+            apply(deleteBackward(value, start, end));
+          }}
+        >
+          <Delete className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Keyboard icon button that opens the virtual keyboard for an input.
+ * Clicks on the input itself do not close it, so the caret can be moved.
+ */
+export function ChakmaKeyboardButton({
+  className,
+  ...props
+}: ChakmaKeyboardProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className={className}
+          title="Chakma keyboard"
+        >
+          <Keyboard className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className="w-[min(32rem,90vw)]"
+        onOpenAutoFocus={(e) => {
+          e.preventDefault();
+          props.inputRef.current?.focus();
+        }}
+        onInteractOutside={(e) => {
+          if (e.target === props.inputRef.current) e.preventDefault();
+        }}
+      >
+        <ChakmaKeyboard {...props} />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/** Switches an input between plain typing and romanized-to-script typing */
+export function TransliterationToggle({
+  enabled,
+  onToggle,
+  className,
+}: {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  className?: string;
+}) {
+  return (
+    <Button
+      type="button"
+      variant={enabled ? "default" : "outline"}
+      size="icon"
+      className={className}
+      aria-pressed={enabled}
+      title={
+        enabled
+          ? "Typing romanized text as Chakma script"
+          : "Type romanized text as Chakma script"
+      }
+      onClick={() => onToggle(!enabled)}
+    >
+      <Languages className="h-4 w-4" />
+    </Button>
+  );
+}
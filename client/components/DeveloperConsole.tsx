@@ -4,7 +4,7 @@
  * Features: CRUD operations, audio upload, AI word generation, data export/import
  */
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,6 +13,7 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   X,
   Plus,
@@ -33,6 +34,7 @@ import {
   Music,
   RefreshCw,
   ArrowRight,
+  History,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -42,9 +44,28 @@ import {
   WordFormData,
   CharacterFormData,
   CharacterType,
+  EditorRole,
 } from "@shared/types";
+import { hasRole } from "@shared/roles";
+import { romanizeChakma } from "@shared/romanization";
 import { sampleWords, sampleCharacters } from "@shared/sampleData";
 import { DeveloperConsoleManager } from "@/lib/storage";
+import { RevisionConflictError, ValidationError } from "@/lib/apiClient";
+import { prefillRomanized } from "@/lib/wordFields";
+import {
+  isPendingWordId,
+  pendingWordId,
+  queueEdit,
+  type QueuedEdit,
+} from "@/lib/wordBatch";
+import WordMergeDialog from "./WordMergeDialog";
+import WordHistory from "./WordHistory";
+import WordRevisions from "./WordRevisions";
+import RomanizationLint from "./RomanizationLint";
+import WordImport from "./WordImport";
+import EditQueue from "./EditQueue";
+import { ChakmaKeyboardButton, TransliterationToggle } from "./ChakmaKeyboard";
+import { useTransliteration } from "@/hooks/use-transliteration";
 
 interface DeveloperConsoleProps {
   onClose: () => void;
@@ -102,52 +123,282 @@ const generateRandomEnglishWords = (count: number): string[] => {
   return commonWords.sort(() => 0.5 - Math.random()).slice(0, count);
 };
 
-// Helper function to handle audio file upload
-const handleAudioUpload = async (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      // In a real app, this would upload to a server/CDN
-      // For demo purposes, we'll create a blob URL
-      const audioUrl = URL.createObjectURL(file);
-      resolve(audioUrl);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
+// Blank word used by the "Add Word" form; an empty id means "create"
+const createEmptyWord = (): Word => ({
+  id: "",
+  chakma_word_script: "",
+  romanized_pronunciation: "",
+  english_translation: "",
+  example_sentence: "",
+  etymology: "",
+  synonyms: [],
+  antonyms: [],
+});
+
+const createEmptyCharacter = (): Character => ({
+  id: "",
+  character_script: "",
+  character_type: "alphabet",
+  romanized_name: "",
+});
 
 export default function DeveloperConsole({ onClose }: DeveloperConsoleProps) {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isAuthenticated, setIsAuthenticated] = useState(() =>
+    DeveloperConsoleManager.isAuthenticated(),
+  );
+  const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+  const [role, setRole] = useState<EditorRole | null>(
+    () => DeveloperConsoleManager.getSession()?.role ?? null,
+  );
   const [error, setError] = useState("");
   const [activeTab, setActiveTab] = useState("words");
 
-  // Content management state (view-only)
+  // Content management state
   const [words, setWords] = useState<Word[]>(sampleWords);
+  const [editingWord, setEditingWord] = useState<Word | null>(null);
+  const [editingRevision, setEditingRevision] = useState<string | null>(null);
+  const [historyWordId, setHistoryWordId] = useState("");
+  const [isQueueing, setIsQueueing] = useState(false);
+  const [queue, setQueue] = useState<QueuedEdit[]>([]);
+  const [isPublishing, setIsPublishing] = useState(false);
   const [characters, setCharacters] = useState<Character[]>(sampleCharacters);
+  const [editingCharacter, setEditingCharacter] = useState<Character | null>(
+    null,
+  );
+  const [editingCharacterRevision, setEditingCharacterRevision] = useState<
+    string | null
+  >(null);
   const [aiGeneratedWords, setAiGeneratedWords] = useState<string[]>([]);
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
 
-  const validPasswords = [
-    "frezanz120913",
-    "frezanz1212312123",
-    "frezanz448538",
-    "ujc448538",
-    "ujc120913",
-    "ujc04485380",
-  ];
+  const loadWords = async () => {
+    const { apiClient } = await import("@/lib/apiClient");
+    try {
+      setWords(await apiClient.getWords());
+    } catch (e) {
+      console.warn("API unavailable, showing sample words:", e);
+    }
+  };
+
+  // Load live words and characters once the console is unlocked
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    (async () => {
+      await loadWords();
+      const { apiClient } = await import("@/lib/apiClient");
+      try {
+        setCharacters(await apiClient.getCharacters());
+      } catch (e) {
+        console.warn("API unavailable, showing sample characters:", e);
+      }
+    })();
+  }, [isAuthenticated]);
+
+  // Fetch the latest copy and its revision before editing
+  const handleEditWord = async (word: Word | null) => {
+    if (!word) {
+      setEditingWord(createEmptyWord());
+      setEditingRevision(null);
+      return;
+    }
+    // Queued words are edited as they stand locally; their queued edit keeps
+    // the revision to check on publish
+    if (queue.some((e) => e.id === word.id)) {
+      setEditingWord(word);
+      setEditingRevision(null);
+      return;
+    }
+    try {
+      const { apiClient } = await import("@/lib/apiClient");
+      const latest = await apiClient.getWord(word.id);
+      setEditingWord(latest.word);
+      setEditingRevision(latest.revision);
+    } catch (e: any) {
+      alert(`Could not load word for editing: ${e?.message || e}`);
+    }
+  };
+
+  const handleSaveWord = async (word: Word, revision: string | null) => {
+    if (isQueueing) {
+      queueWordSave(word, revision);
+      return;
+    }
+    const { apiClient } = await import("@/lib/apiClient");
+    if (word.id) {
+      const saved = await apiClient.updateWord(word.id, word, revision);
+      setWords((prev) => prev.map((w) => (w.id === saved.id ? saved : w)));
+    } else {
+      const { id, ...fields } = word;
+      const saved = await apiClient.createWord(fields);
+      setWords((prev) => [...prev.filter((w) => w.id !== saved.id), saved]);
+    }
+    setEditingWord(null);
+    setEditingRevision(null);
+  };
+
+  const handleDeleteWord = async (id: string) => {
+    if (!confirm("Delete this word from the dictionary?")) return;
+    if (isQueueing) {
+      const word = words.find((w) => w.id === id);
+      setQueue((prev) =>
+        queueEdit(prev, {
+          id,
+          label: word?.romanized_pronunciation || id,
+          operation: { op: "delete", id },
+        }),
+      );
+      setWords((prev) => prev.filter((w) => w.id !== id));
+      return;
+    }
+    try {
+      const { apiClient } = await import("@/lib/apiClient");
+      await apiClient.deleteWord(id);
+      setWords((prev) => prev.filter((w) => w.id !== id));
+    } catch (e: any) {
+      alert(`Delete failed: ${e?.message || e}`);
+    }
+  };
+
+  // Queued saves show up in the list right away; new words get a placeholder
+  // id until the batch is published
+  const queueWordSave = (word: Word, revision: string | null) => {
+    const { id, ...fields } = word;
+    const wordId = id || pendingWordId();
+    setQueue((prev) =>
+      queueEdit(prev, {
+        id: wordId,
+        label: word.romanized_pronunciation,
+        operation: id
+          ? {
+              op: "update",
+              id,
+              changes: fields,
+              revision: revision ?? undefined,
+            }
+          : { op: "create", word: fields },
+      }),
+    );
+    setWords((prev) => [
+      ...prev.filter((w) => w.id !== wordId),
+      { ...word, id: wordId },
+    ]);
+    setEditingWord(null);
+    setEditingRevision(null);
+  };
+
+  const handlePublishQueue = async () => {
+    setIsPublishing(true);
+    try {
+      const { apiClient } = await import("@/lib/apiClient");
+      await apiClient.batchWords(queue.map((e) => e.operation));
+      setQueue([]);
+      await loadWords();
+    } catch (e: any) {
+      // Nothing was saved; the queue stays so the edit can be fixed
+      const failed = queue[e?.body?.failed_index];
+      alert(
+        `Publish failed${failed ? ` at "${failed.label}"` : ""}: ${e?.message || e}`,
+      );
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleDiscardQueue = async () => {
+    if (!confirm(`Discard ${queue.length} queued edit(s)?`)) return;
+    setQueue([]);
+    await loadWords();
+  };
+
+  const handleEditCharacter = async (character: Character | null) => {
+    if (!character) {
+      setEditingCharacter(createEmptyCharacter());
+      setEditingCharacterRevision(null);
+      return;
+    }
+    try {
+      const { apiClient } = await import("@/lib/apiClient");
+      const latest = await apiClient.getCharacter(character.id);
+      setEditingCharacter(latest.character);
+      setEditingCharacterRevision(latest.revision);
+    } catch (e: any) {
+      alert(`Could not load character for editing: ${e?.message || e}`);
+    }
+  };
+
+  const handleSaveCharacter = async (
+    character: Character,
+    revision: string | null,
+  ) => {
+    const { apiClient } = await import("@/lib/apiClient");
+    if (character.id) {
+      const saved = await apiClient.updateCharacter(
+        character.id,
+        character,
+        revision,
+      );
+      setCharacters((prev) =>
+        prev.map((c) => (c.id === saved.id ? saved : c)),
+      );
+    } else {
+      const { id, ...fields } = character;
+      const saved = await apiClient.createCharacter(fields);
+      setCharacters((prev) => [...prev, saved]);
+    }
+    setEditingCharacter(null);
+    setEditingCharacterRevision(null);
+  };
+
+  const handleDeleteCharacter = async (id: string) => {
+    if (!confirm("Delete this character from the inventory?")) return;
+    try {
+      const { apiClient } = await import("@/lib/apiClient");
+      await apiClient.deleteCharacter(id);
+      setCharacters((prev) => prev.filter((c) => c.id !== id));
+    } catch (e: any) {
+      alert(`Delete failed: ${e?.message || e}`);
+    }
+  };
 
-  const handlePasswordSubmit = (e: React.FormEvent) => {
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setIsLoggingIn(true);
 
-    if (validPasswords.includes(password)) {
+    try {
+      const { apiClient } = await import("@/lib/apiClient");
+      const session = await apiClient.login(username.trim(), password);
+      setRole(session.role);
       setIsAuthenticated(true);
       setError("");
-      DeveloperConsoleManager.setAuthenticated(true);
-    } else {
-      setError("Invalid password");
+    } catch (err: any) {
+      setError(
+        err?.status === 401
+          ? "Invalid username or password"
+          : err?.message || "Login failed",
+      );
       setPassword("");
+    } finally {
+      setIsLoggingIn(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    const { apiClient } = await import("@/lib/apiClient");
+    apiClient.logout();
+    setIsAuthenticated(false);
+    setRole(null);
+    setPassword("");
+  };
+
+  const handleRebuild = async () => {
+    try {
+      const { apiClient } = await import("@/lib/apiClient");
+      await apiClient.triggerRebuild();
+      alert("Rebuild triggered. The site will update in a few minutes.");
+    } catch (e: any) {
+      alert(`Rebuild failed: ${e?.message || e}`);
     }
   };
 
@@ -202,22 +453,13 @@ export default function DeveloperConsole({ onClose }: DeveloperConsoleProps) {
     URL.revokeObjectURL(url);
   };
 
-  const importData = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = JSON.parse(e.target?.result as string);
-        if (data.words) setWords(data.words);
-        if (data.characters) setCharacters(data.characters);
-        alert("Data imported successfully!");
-      } catch (error) {
-        alert("Import failed: Invalid file format");
-      }
-    };
-    reader.readAsText(file);
+  // Imported words replace their stored copies; new ones go at the end
+  const handleImported = (imported: Word[]) => {
+    const byId = new Map(imported.map((w) => [w.id, w]));
+    setWords((prev) => [
+      ...prev.map((w) => byId.get(w.id) ?? w),
+      ...imported.filter((w) => !prev.some((p) => p.id === w.id)),
+    ]);
   };
 
   if (!isAuthenticated) {
@@ -235,21 +477,35 @@ export default function DeveloperConsole({ onClose }: DeveloperConsoleProps) {
           <CardContent>
             <form onSubmit={handlePasswordSubmit} className="space-y-4">
               <div>
-                <Label>Enter Password:</Label>
+                <Label>Username:</Label>
+                <Input
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  placeholder="Username"
+                  autoComplete="username"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <Label>Password:</Label>
                 <Input
                   type="password"
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   placeholder="Password"
-                  autoFocus
+                  autoComplete="current-password"
                 />
                 {error && (
                   <p className="text-destructive text-sm mt-1">{error}</p>
                 )}
               </div>
               <div className="flex space-x-2">
-                <Button type="submit" className="flex-1">
-                  Access Console
+                <Button
+                  type="submit"
+                  className="flex-1"
+                  disabled={isLoggingIn || !username || !password}
+                >
+                  {isLoggingIn ? "Signing in..." : "Access Console"}
                 </Button>
                 <Button type="button" variant="outline" onClick={onClose}>
                   Cancel
@@ -276,9 +532,19 @@ export default function DeveloperConsole({ onClose }: DeveloperConsoleProps) {
               Enhanced with audio upload, full character editing, and AI word
               generation
             </p>
-            <Button variant="ghost" size="sm" onClick={onClose}>
-              <X className="h-4 w-4" />
-            </Button>
+            <div className="flex items-center gap-2">
+              {role && (
+                <Badge variant="secondary" className="capitalize">
+                  {role}
+                </Badge>
+              )}
+              <Button variant="outline" size="sm" onClick={handleLogout}>
+                Log Out
+              </Button>
+              <Button variant="ghost" size="sm" onClick={onClose}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
         </CardHeader>
 
@@ -288,8 +554,9 @@ export default function DeveloperConsole({ onClose }: DeveloperConsoleProps) {
             onValueChange={setActiveTab}
             className="h-full flex flex-col"
           >
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="words">Words Management</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
               <TabsTrigger value="characters">Characters</TabsTrigger>
               <TabsTrigger value="ai">AI Word Generator</TabsTrigger>
               <TabsTrigger value="data">Data Export/Import</TabsTrigger>
@@ -299,11 +566,41 @@ export default function DeveloperConsole({ onClose }: DeveloperConsoleProps) {
             <TabsContent value="words" className="flex-1 overflow-hidden">
               <WordsManagement
                 words={words}
-                editingWord={null}
-                onEdit={() => {}}
-                onSave={() => {}}
-                onDelete={() => {}}
-                onCancel={() => {}}
+                editingWord={editingWord}
+                editingRevision={editingRevision}
+                onEdit={handleEditWord}
+                onSave={handleSaveWord}
+                onDelete={handleDeleteWord}
+                onCancel={() => setEditingWord(null)}
+                onHistory={(word) => {
+                  setHistoryWordId(word.id);
+                  setActiveTab("history");
+                }}
+                onReverted={(restored) =>
+                  setWords((prev) =>
+                    prev.map((w) => (w.id === restored.id ? restored : w)),
+                  )
+                }
+                role={role}
+                editQueue={
+                  <EditQueue
+                    queue={queue}
+                    enabled={isQueueing}
+                    isPublishing={isPublishing}
+                    onToggle={setIsQueueing}
+                    onPublish={handlePublishQueue}
+                    onDiscard={handleDiscardQueue}
+                  />
+                }
+              />
+            </TabsContent>
+
+            {/* Edit History */}
+            <TabsContent value="history" className="flex-1 overflow-hidden">
+              <WordHistory
+                words={words}
+                wordId={historyWordId}
+                onWordChange={setHistoryWordId}
               />
             </TabsContent>
 
@@ -311,11 +608,13 @@ export default function DeveloperConsole({ onClose }: DeveloperConsoleProps) {
             <TabsContent value="characters" className="flex-1 overflow-hidden">
               <CharactersManagement
                 characters={characters}
-                editingCharacter={null}
-                onEdit={() => {}}
-                onSave={() => {}}
-                onDelete={() => {}}
-                onCancel={() => {}}
+                editingCharacter={editingCharacter}
+                editingRevision={editingCharacterRevision}
+                onEdit={handleEditCharacter}
+                onSave={handleSaveCharacter}
+                onDelete={handleDeleteCharacter}
+                onCancel={() => setEditingCharacter(null)}
+                role={role}
               />
             </TabsContent>
 
@@ -344,10 +643,16 @@ export default function DeveloperConsole({ onClose }: DeveloperConsoleProps) {
             {/* Data Management */}
             <TabsContent value="data" className="flex-1 overflow-hidden">
               <DataManagement
+                words={words}
+                onEditWord={(word: Word) => {
+                  handleEditWord(word);
+                  setActiveTab("words");
+                }}
                 wordsCount={words.length}
                 charactersCount={characters.length}
                 onExport={exportData}
-                onImport={importData}
+                onImported={handleImported}
+                onRebuild={hasRole(role, "admin") ? handleRebuild : undefined}
               />
             </TabsContent>
           </Tabs>
@@ -357,38 +662,78 @@ export default function DeveloperConsole({ onClose }: DeveloperConsoleProps) {
   );
 }
 
-// Words Management Component - View Only
+// Words Management Component
 function WordsManagement({
   words,
   editingWord,
+  editingRevision,
   onEdit,
   onSave,
   onDelete,
   onCancel,
+  onHistory,
+  onReverted,
+  role,
+  editQueue,
 }: {
   words: Word[];
   editingWord: Word | null;
+  editingRevision: string | null;
   onEdit: (word: Word | null) => void;
-  onSave: (word: Word) => void;
+  onSave: (word: Word, revision: string | null) => Promise<void>;
   onDelete: (id: string) => void;
   onCancel: () => void;
+  onHistory: (word: Word) => void;
+  onReverted: (word: Word) => void;
+  role: EditorRole | null;
+  editQueue: React.ReactNode;
 }) {
+  const [revisionsWord, setRevisionsWord] = useState<Word | null>(null);
+
   // Sort words alphabetically by romanized pronunciation
   const sortedWords = [...words].sort((a, b) =>
     a.romanized_pronunciation.localeCompare(b.romanized_pronunciation),
   );
 
+  if (editingWord) {
+    return (
+      <div className="h-full overflow-auto">
+        <WordForm
+          key={editingWord.id || "new"}
+          word={editingWord}
+          revision={editingRevision}
+          onSave={onSave}
+          onCancel={onCancel}
+          canVerify={hasRole(role, "reviewer")}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="h-full flex flex-col space-y-4">
+      <WordRevisions
+        word={revisionsWord}
+        onClose={() => setRevisionsWord(null)}
+        onReverted={onReverted}
+      />
       <div className="flex justify-between items-center">
         <h3 className="text-lg font-semibold">
           Dictionary Words ({sortedWords.length})
         </h3>
-        <Badge variant="outline" className="text-sm">
-          View Only - Alphabetically Sorted
-        </Badge>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="text-sm">
+            Alphabetically Sorted
+          </Badge>
+          <Button size="sm" onClick={() => onEdit(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Word
+          </Button>
+        </div>
       </div>
 
+      {editQueue}
+
       <div className="flex-1 overflow-auto space-y-2">
         {sortedWords.map((word) => (
           <Card key={word.id} className="p-4">
@@ -417,6 +762,39 @@ function WordsManagement({
                     <Volume2 className="h-4 w-4" />
                   </Button>
                 )}
+                {/* Words queued for creation have no history yet */}
+                {!isPendingWordId(word.id) && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onHistory(word)}
+                      title="Edit history"
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRevisionsWord(word)}
+                      title="Revisions"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => onEdit(word)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                {hasRole(role, "admin") && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onDelete(word.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
 
               {word.example_sentence && (
@@ -452,21 +830,114 @@ function WordsManagement({
   );
 }
 
+// Fields WordForm shows messages next to; others go in the summary on top
+const WORD_FORM_FIELDS = [
+  "chakma_word_script",
+  "romanized_pronunciation",
+  "english_translation",
+  "is_verified",
+  "example_sentence",
+  "etymology",
+  "audio_pronunciation_url",
+  "explanation_media",
+  "synonyms",
+  "antonyms",
+];
+
+// Server validation messages for a field, including nested paths such as
+// "synonyms.0.language"
+function FieldError({
+  errors,
+  field,
+}: {
+  errors: Record<string, string>;
+  field: string;
+}) {
+  const messages = Object.entries(errors)
+    .filter(([path]) => path === field || path.startsWith(`${field}.`))
+    .map(([path, message]) =>
+      path === field ? message : `${path.slice(field.length + 1)}: ${message}`,
+    );
+  if (!messages.length) return null;
+  return (
+    <p className="text-xs text-destructive mt-1">{messages.join("; ")}</p>
+  );
+}
+
 // Word Form Component
 function WordForm({
   word,
+  revision,
   onSave,
   onCancel,
+  canVerify,
 }: {
   word: Word;
-  onSave: (word: Word) => void;
+  revision: string | null;
+  onSave: (word: Word, revision: string | null) => Promise<void>;
   onCancel: () => void;
+  /** Only reviewers may change `is_verified`; the API enforces this too */
+  canVerify: boolean;
 }) {
   const [formData, setFormData] = useState(word);
+  const scriptInputRef = useRef<HTMLInputElement>(null);
+  const setScript = (chakma_word_script: string) =>
+    setFormData((prev) => ({
+      ...prev,
+      chakma_word_script,
+      romanized_pronunciation: prefillRomanized(
+        prev.chakma_word_script,
+        prev.romanized_pronunciation,
+        chakma_word_script,
+      ),
+    }));
+  const generatedRomanization = romanizeChakma(formData.chakma_word_script);
+  const transliteration = useTransliteration(scriptInputRef, setScript);
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [advancedOpen, setAdvancedOpen] = useState(true);
+  const [baseRevision, setBaseRevision] = useState(revision);
+  const [conflict, setConflict] = useState<{
+    mine: Word;
+    theirs: Word | null;
+    revision: string | null;
+  } | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const otherErrors = Object.entries(fieldErrors).filter(
+    ([path]) => !WORD_FORM_FIELDS.includes(path.split(".")[0]),
+  );
+
+  const persist = async (next: Word, nextRevision: string | null) => {
+    setIsUploading(true);
+    setFieldErrors({});
+    try {
+      await onSave(next, nextRevision);
+    } catch (error: any) {
+      if (error instanceof ValidationError) {
+        setFieldErrors(error.fieldErrors);
+      } else if (error instanceof RevisionConflictError) {
+        setConflict({
+          mine: next,
+          theirs: error.current,
+          revision: error.revision,
+        });
+      } else {
+        console.error("Save failed:", error);
+        alert(`Save failed: ${error?.message || error}`);
+      }
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleMerge = (merged: Word) => {
+    const nextRevision = conflict?.revision ?? null;
+    setConflict(null);
+    setFormData(merged);
+    setBaseRevision(nextRevision);
+    persist(merged, nextRevision);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -507,14 +978,19 @@ function WordForm({
 
     setIsUploading(false);
 
-    onSave({
+    // Keep uploaded URLs in the form so a retry after a conflict reuses them
+    const next: Word = {
       ...formData,
       audio_pronunciation_url: audioUrl,
       explanation_media: imageUrl
         ? { type: "image", value: imageUrl }
         : formData.explanation_media,
       updated_at: new Date().toISOString(),
-    });
+    };
+    setFormData(next);
+    setAudioFile(null);
+    setImageFile(null);
+    await persist(next, baseRevision);
   };
 
   const handleAudioFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -566,18 +1042,45 @@ function WordForm({
         </div>
       </div>
 
+      {otherErrors.length > 0 && (
+        <div className="rounded-lg border border-destructive/50 p-3 text-sm text-destructive">
+          {otherErrors.map(([path, message]) => (
+            <div key={path}>
+              {path}: {message}
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
           <Label>Chakma Script *</Label>
-          <Input
-            value={formData.chakma_word_script}
-            onChange={(e) =>
-              setFormData({ ...formData, chakma_word_script: e.target.value })
-            }
-            placeholder="Chakma text"
-            className="font-chakma h-14 text-xl"
-            required
-          />
+          <div className="flex gap-2">
+            <Input
+              ref={scriptInputRef}
+              value={formData.chakma_word_script}
+              onChange={(e) => transliteration.handleChange(e.target.value)}
+              placeholder={
+                transliteration.enabled
+                  ? "Type romanized, e.g. ado"
+                  : "Chakma text"
+              }
+              className="font-chakma h-14 text-xl"
+              required
+            />
+            <TransliterationToggle
+              enabled={transliteration.enabled}
+              onToggle={transliteration.setEnabled}
+              className="h-14 w-14 shrink-0"
+            />
+            <ChakmaKeyboardButton
+              inputRef={scriptInputRef}
+              value={formData.chakma_word_script}
+              onChange={setScript}
+              className="h-14 w-14 shrink-0"
+            />
+          </div>
+          <FieldError errors={fieldErrors} field="chakma_word_script" />
         </div>
         <div>
           <Label>Romanized Pronunciation *</Label>
@@ -593,9 +1096,45 @@ function WordForm({
             className="h-14 text-lg"
             required
           />
+          {generatedRomanization &&
+            generatedRomanization !== formData.romanized_pronunciation && (
+              <button
+                type="button"
+                className="text-xs text-muted-foreground mt-1 hover:underline"
+                onClick={() =>
+                  setFormData({
+                    ...formData,
+                    romanized_pronunciation: generatedRomanization,
+                  })
+                }
+              >
+                Generated from script: {generatedRomanization} (use this)
+              </button>
+            )}
+          <FieldError errors={fieldErrors} field="romanized_pronunciation" />
         </div>
       </div>
 
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="word-verified"
+          checked={!!formData.is_verified}
+          disabled={!canVerify}
+          onCheckedChange={(checked) =>
+            setFormData({ ...formData, is_verified: checked === true })
+          }
+        />
+        <Label htmlFor="word-verified">
+          Verified
+          {!canVerify && (
+            <span className="text-xs text-muted-foreground ml-2">
+              (reviewers only)
+            </span>
+          )}
+        </Label>
+        <FieldError errors={fieldErrors} field="is_verified" />
+      </div>
+
       <div>
         <Label>English Translation *</Label>
         <Input
@@ -607,6 +1146,7 @@ function WordForm({
           className="h-14 text-lg"
           required
         />
+        <FieldError errors={fieldErrors} field="english_translation" />
       </div>
 
       <div>
@@ -620,6 +1160,7 @@ function WordForm({
           className="text-lg"
           required
         />
+        <FieldError errors={fieldErrors} field="example_sentence" />
       </div>
 
       <div>
@@ -633,6 +1174,7 @@ function WordForm({
           className="text-lg"
           required
         />
+        <FieldError errors={fieldErrors} field="etymology" />
       </div>
 
       <div>
@@ -690,6 +1232,7 @@ function WordForm({
           <p className="text-xs text-muted-foreground">
             Supported formats: MP3, WAV, OGG. Max size: 5MB
           </p>
+          <FieldError errors={fieldErrors} field="audio_pronunciation_url" />
         </div>
       </div>
 
@@ -746,6 +1289,7 @@ function WordForm({
               })
             }
           />
+          <FieldError errors={fieldErrors} field="explanation_media" />
         </div>
       </div>
 
@@ -769,6 +1313,7 @@ function WordForm({
                   })
                 }
               />
+              <FieldError errors={fieldErrors} field="synonyms" />
             </div>
             <div>
               <Label>Antonyms (comma separated)</Label>
@@ -786,29 +1331,43 @@ function WordForm({
                   })
                 }
               />
+              <FieldError errors={fieldErrors} field="antonyms" />
             </div>
           </div>
         </div>
       </div>
+      {conflict && (
+        <WordMergeDialog
+          open
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          onResolve={handleMerge}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </form>
   );
 }
 
-// Characters Management Component - View Only
+// Characters Management Component
 function CharactersManagement({
   characters,
   editingCharacter,
+  editingRevision,
   onEdit,
   onSave,
   onDelete,
   onCancel,
+  role,
 }: {
   characters: Character[];
   editingCharacter: Character | null;
+  editingRevision: string | null;
   onEdit: (character: Character | null) => void;
-  onSave: (character: Character) => void;
+  onSave: (character: Character, revision: string | null) => Promise<void>;
   onDelete: (id: string) => void;
   onCancel: () => void;
+  role: EditorRole | null;
 }) {
   // Group characters by type for better organization
   const charactersByType = characters.reduce(
@@ -830,15 +1389,35 @@ function CharactersManagement({
     "symbol",
   ];
 
+  if (editingCharacter) {
+    return (
+      <div className="h-full overflow-auto">
+        <CharacterForm
+          key={editingCharacter.id || "new"}
+          character={editingCharacter}
+          revision={editingRevision}
+          onSave={onSave}
+          onCancel={onCancel}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="h-full flex flex-col space-y-4">
       <div className="flex justify-between items-center">
         <h3 className="text-lg font-semibold">
           Chakma Characters ({characters.length})
         </h3>
-        <Badge variant="outline" className="text-sm">
-          View Only - Grouped by Type
-        </Badge>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="text-sm">
+            Grouped by Type
+          </Badge>
+          <Button size="sm" onClick={() => onEdit(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Character
+          </Button>
+        </div>
       </div>
 
       <div className="flex-1 overflow-auto space-y-6">
@@ -869,21 +1448,41 @@ function CharactersManagement({
                           {character.description}
                         </p>
                       )}
-                      {character.audio_pronunciation_url && (
+                      <div className="flex justify-center gap-1">
+                        {character.audio_pronunciation_url && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              const audio = new Audio(
+                                character.audio_pronunciation_url!,
+                              );
+                              audio.play().catch(console.error);
+                            }}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Volume2 className="h-3 w-3" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => {
-                            const audio = new Audio(
-                              character.audio_pronunciation_url!,
-                            );
-                            audio.play().catch(console.error);
-                          }}
+                          onClick={() => onEdit(character)}
                           className="h-8 w-8 p-0"
                         >
-                          <Volume2 className="h-3 w-3" />
+                          <Edit className="h-3 w-3" />
                         </Button>
-                      )}
+                        {hasRole(role, "admin") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onDelete(character.id)}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
                     </div>
                   </Card>
                 ))}
@@ -899,14 +1498,17 @@ function CharactersManagement({
 // Character Form Component
 function CharacterForm({
   character,
+  revision,
   onSave,
   onCancel,
 }: {
   character: Character;
-  onSave: (character: Character) => void;
+  revision: string | null;
+  onSave: (character: Character, revision: string | null) => Promise<void>;
   onCancel: () => void;
 }) {
   const [formData, setFormData] = useState(character);
+  const scriptInputRef = useRef<HTMLInputElement>(null);
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
 
@@ -927,7 +1529,8 @@ function CharacterForm({
     if (audioFile) {
       setIsUploading(true);
       try {
-        audioUrl = await handleAudioUpload(audioFile);
+        const { apiClient } = await import("@/lib/apiClient");
+        audioUrl = await apiClient.uploadAudio(audioFile);
       } catch (error) {
         console.error("Audio upload failed:", error);
         alert("Audio upload failed. Please try again.");
@@ -937,10 +1540,25 @@ function CharacterForm({
       setIsUploading(false);
     }
 
-    onSave({
-      ...formData,
-      audio_pronunciation_url: audioUrl,
-    });
+    setIsUploading(true);
+    try {
+      await onSave(
+        { ...formData, audio_pronunciation_url: audioUrl },
+        revision,
+      );
+    } catch (error: any) {
+      // Characters have no merge view; the editor reopens the latest copy
+      if (error instanceof RevisionConflictError) {
+        alert(
+          `${error.message}. Cancel and reopen the character to edit the latest version.`,
+        );
+      } else {
+        console.error("Save failed:", error);
+        alert(`Save failed: ${error?.message || error}`);
+      }
+    } finally {
+      setIsUploading(false);
+    }
   };
 
   const handleAudioFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -986,15 +1604,26 @@ function CharacterForm({
       <div className="grid grid-cols-2 gap-4">
         <div>
           <Label>Character Script *</Label>
-          <Input
-            value={formData.character_script}
-            onChange={(e) =>
-              setFormData({ ...formData, character_script: e.target.value })
-            }
-            placeholder="𑄌"
-            className="font-chakma text-2xl"
-            required
-          />
+          <div className="flex gap-2">
+            <Input
+              ref={scriptInputRef}
+              value={formData.character_script}
+              onChange={(e) =>
+                setFormData({ ...formData, character_script: e.target.value })
+              }
+              placeholder="𑄌"
+              className="font-chakma text-2xl"
+              required
+            />
+            <ChakmaKeyboardButton
+              inputRef={scriptInputRef}
+              value={formData.character_script}
+              onChange={(character_script) =>
+                setFormData((prev) => ({ ...prev, character_script }))
+              }
+              className="shrink-0"
+            />
+          </div>
         </div>
         <div>
           <Label>Romanized Name *</Label>
@@ -1007,6 +1636,23 @@ function CharacterForm({
             required
           />
         </div>
+        <div className="col-span-2">
+          <Label>Transliteration</Label>
+          <Input
+            value={formData.transliteration ?? ""}
+            onChange={(e) =>
+              setFormData({
+                ...formData,
+                transliteration: e.target.value || undefined,
+              })
+            }
+            placeholder="Leave empty to use the default spelling"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            What to type in romanized mode to get this character. Consonants are
+            written with their inherent vowel, like "cha".
+          </p>
+        </div>
       </div>
 
       <div>
@@ -1419,7 +2065,16 @@ function AIWordGenerator({
                     <Label>Chakma Script *</Label>
                     <Input
                       value={chakmaInput}
-                      onChange={(e) => setChakmaInput(e.target.value)}
+                      onChange={(e) => {
+                        setRomanizedInput(
+                          prefillRomanized(
+                            chakmaInput,
+                            romanizedInput,
+                            e.target.value,
+                          ),
+                        );
+                        setChakmaInput(e.target.value);
+                      }}
                       placeholder="Enter Chakma script"
                       className="font-chakma text-xl h-12"
                       required
@@ -1652,10 +2307,13 @@ function AIWordGenerator({
 
 // Data Management Component
 function DataManagement({
+  words,
+  onEditWord,
   wordsCount,
   charactersCount,
   onExport,
-  onImport,
+  onImported,
+  onRebuild,
 }: any) {
   return (
     <div className="space-y-6">
@@ -1705,15 +2363,26 @@ function DataManagement({
         </div>
       </Card>
 
-      <Card className="p-4 bg-muted/50">
-        <div className="text-center">
-          <h4 className="font-medium text-sm mb-2">Import Functionality</h4>
-          <p className="text-xs text-muted-foreground">
-            Import functionality has been disabled in this view-only version.
-            Use the exported JSON files with your repository management system.
-          </p>
-        </div>
-      </Card>
+      <WordImport onImported={onImported} />
+
+      <RomanizationLint words={words} onEdit={onEditWord} />
+
+      {onRebuild && (
+        <Card className="p-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h3 className="font-medium">Rebuild Site</h3>
+              <p className="text-sm text-muted-foreground">
+                Redeploys the site so static pages pick up the latest words.
+              </p>
+            </div>
+            <Button variant="outline" onClick={onRebuild}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Trigger Rebuild
+            </Button>
+          </div>
+        </Card>
+      )}
     </div>
   );
 }
@@ -0,0 +1,90 @@
+/**
+ * Edit Queue
+ * Collects word edits in the console and publishes them with one batch
+ * request, so a round of edits becomes one commit and one site rebuild.
+ */
+
+import React from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Send, Undo2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { QueuedEdit } from "@/lib/wordBatch";
+
+interface EditQueueProps {
+  queue: QueuedEdit[];
+  enabled: boolean;
+  isPublishing: boolean;
+  onToggle: (enabled: boolean) => void;
+  onPublish: () => void;
+  onDiscard: () => void;
+}
+
+const OPERATION_LABELS = {
+  create: "Add",
+  update: "Edit",
+  delete: "Delete",
+} as const;
+
+export default function EditQueue({
+  queue,
+  enabled,
+  isPublishing,
+  onToggle,
+  onPublish,
+  onDiscard,
+}: EditQueueProps) {
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="queue-edits"
+            checked={enabled}
+            // Turning the queue off would strand queued edits; publish or
+            // discard them first
+            disabled={queue.length > 0}
+            onCheckedChange={(checked) => onToggle(checked === true)}
+          />
+          <Label htmlFor="queue-edits">Queue edits and publish together</Label>
+        </div>
+        {queue.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onDiscard}
+              disabled={isPublishing}
+            >
+              <Undo2 className="h-4 w-4 mr-2" />
+              Discard
+            </Button>
+            <Button size="sm" onClick={onPublish} disabled={isPublishing}>
+              <Send className="h-4 w-4 mr-2" />
+              {isPublishing ? "Publishing..." : `Publish ${queue.length}`}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {queue.length > 0 && (
+        <div className="max-h-32 overflow-auto flex flex-wrap gap-2">
+          {queue.map((edit) => (
+            <Badge
+              key={edit.id}
+              variant="outline"
+              className={cn(
+                edit.operation.op === "delete" && "text-destructive",
+              )}
+            >
+              {OPERATION_LABELS[edit.operation.op]} {edit.label}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
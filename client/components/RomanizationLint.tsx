@@ -0,0 +1,82 @@
+/**
+ * Romanization Lint
+ * Lists words whose stored romanized pronunciation differs from the one
+ * generated from their Chakma script.
+ */
+
+import React, { useMemo } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, Edit } from "lucide-react";
+import { romanizeChakma } from "@shared/romanization";
+
+import { Word } from "@shared/types";
+
+interface RomanizationLintProps {
+  words: Word[];
+  onEdit: (word: Word) => void;
+}
+
+export default function RomanizationLint({
+  words,
+  onEdit,
+}: RomanizationLintProps) {
+  const mismatches = useMemo(
+    () =>
+      words
+        .map((word) => ({
+          word,
+          generated: romanizeChakma(word.chakma_word_script),
+        }))
+        .filter(
+          ({ word, generated }) =>
+            generated !== word.romanized_pronunciation.trim(),
+        ),
+    [words],
+  );
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-medium">Romanization Check</h3>
+          <p className="text-sm text-muted-foreground">
+            Words whose romanized pronunciation differs from the one generated
+            from their script.
+          </p>
+        </div>
+        <Badge variant={mismatches.length ? "secondary" : "outline"}>
+          {mismatches.length} of {words.length}
+        </Badge>
+      </div>
+
+      {mismatches.length === 0 ? (
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <CheckCircle className="h-4 w-4" />
+          Every romanization matches its script.
+        </p>
+      ) : (
+        <div className="max-h-64 overflow-auto space-y-1">
+          {mismatches.map(({ word, generated }) => (
+            <div
+              key={word.id}
+              className="grid grid-cols-[6rem_1fr_1fr_auto] items-center gap-2 text-sm"
+            >
+              <span className="font-chakma text-chakma-primary text-lg">
+                {word.chakma_word_script}
+              </span>
+              <span className="text-muted-foreground line-through">
+                {word.romanized_pronunciation}
+              </span>
+              <span>{generated}</span>
+              <Button size="sm" variant="ghost" onClick={() => onEdit(word)}>
+                <Edit className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,360 @@
+/**
+ * Word Collections
+ * Named word lists kept on this device, e.g. for a week of class: each has a
+ * description, its own word order and a note per word.
+ */
+
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  ArrowDown,
+  ArrowUp,
+  ListChecks,
+  Pencil,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+
+import { CollectionEntry, Word, WordCollection } from "@shared/types";
+import { CollectionsManager } from "@/lib/storage";
+import type { DictionarySource } from "@/hooks/use-dictionary";
+
+interface WordCollectionsProps {
+  words: Word[];
+  /** Until the dictionary has loaded, missing words are not known to be deleted */
+  source: DictionarySource;
+}
+
+export default function WordCollections({
+  words,
+  source,
+}: WordCollectionsProps) {
+  const [collections, setCollections] = useState<WordCollection[]>(() =>
+    CollectionsManager.getAll(),
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(
+    () => collections[0]?.id ?? null,
+  );
+  // null when closed; "new" or a list id while its name is being edited
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const selected = collections.find((c) => c.id === selectedId);
+  const byId = new Map(words.map((word) => [word.id, word]));
+
+  const refresh = () => setCollections(CollectionsManager.getAll());
+
+  const handleSave = (name: string, description: string) => {
+    if (editing === "new") {
+      const collection = CollectionsManager.create(name, description);
+      setSelectedId(collection.id);
+    } else {
+      CollectionsManager.rename(editing, name, description);
+    }
+    setEditing(null);
+    refresh();
+  };
+
+  const handleDelete = (collection: WordCollection) => {
+    if (!confirm(`Delete the list "${collection.name}"?`)) return;
+    CollectionsManager.delete(collection.id);
+    const remaining = CollectionsManager.getAll();
+    setSelectedId(remaining[0]?.id ?? null);
+    setCollections(remaining);
+  };
+
+  const update = (change: () => void) => {
+    change();
+    refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Word Lists
+        </CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setEditing("new")}
+          disabled={editing === "new"}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New List
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {editing === "new" && (
+          <CollectionForm
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        {collections.length === 0 ? (
+          editing !== "new" && (
+            <p className="text-sm text-muted-foreground">
+              Group words into lists such as "Kinship terms" or "Week 3 vocab".
+              Create one here, or use "Add to list…" on any word.
+            </p>
+          )
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {collections.map((collection) => (
+              <Button
+                key={collection.id}
+                variant={collection.id === selectedId ? "default" : "outline"}
+                size="sm"
+                onClick={() => {
+                  setSelectedId(collection.id);
+                  if (editing !== "new") setEditing(null);
+                }}
+              >
+                {collection.name}
+                <Badge variant="secondary" className="ml-2">
+                  {collection.entries.length}
+                </Badge>
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {selected &&
+          (editing === selected.id ? (
+            <CollectionForm
+              collection={selected}
+              onSave={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <div className="space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="font-medium">{selected.name}</h3>
+                  {selected.description && (
+                    <p className="text-sm text-muted-foreground">
+                      {selected.description}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditing(selected.id)}
+                    title="Edit name and description"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(selected)}
+                    title="Delete list"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {selected.entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No words yet. Use "Add to list…" on a word in the dictionary.
+                </p>
+              ) : (
+                <ol className="space-y-2">
+                  {selected.entries.map((entry, index) => (
+                    <CollectionEntryRow
+                      key={entry.word_id}
+                      entry={entry}
+                      word={byId.get(entry.word_id)}
+                      isRemoved={
+                        source !== "sample" && !byId.has(entry.word_id)
+                      }
+                      isFirst={index === 0}
+                      isLast={index === selected.entries.length - 1}
+                      onMove={(offset) =>
+                        update(() =>
+                          CollectionsManager.moveWord(
+                            selected.id,
+                            entry.word_id,
+                            index + offset,
+                          ),
+                        )
+                      }
+                      onNoteChange={(note) =>
+                        update(() =>
+                          CollectionsManager.setNote(
+                            selected.id,
+                            entry.word_id,
+                            note,
+                          ),
+                        )
+                      }
+                      onRemove={() =>
+                        update(() =>
+                          CollectionsManager.removeWord(
+                            selected.id,
+                            entry.word_id,
+                          ),
+                        )
+                      }
+                    />
+                  ))}
+                </ol>
+              )}
+            </div>
+          ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface CollectionFormProps {
+  collection?: WordCollection;
+  onSave: (name: string, description: string) => void;
+  onCancel: () => void;
+}
+
+function CollectionForm({ collection, onSave, onCancel }: CollectionFormProps) {
+  const [name, setName] = useState(collection?.name ?? "");
+  const [description, setDescription] = useState(collection?.description ?? "");
+
+  return (
+    <form
+      className="space-y-2 rounded-lg border p-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (name.trim()) onSave(name, description);
+      }}
+    >
+      <Input
+        placeholder="List name, e.g. Farming"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        autoFocus
+      />
+      <Textarea
+        placeholder="Description (optional)"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        rows={2}
+      />
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={!name.trim()}>
+          {collection ? "Save" : "Create List"}
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface CollectionEntryRowProps {
+  entry: CollectionEntry;
+  word?: Word;
+  isRemoved: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  onMove: (offset: -1 | 1) => void;
+  onNoteChange: (note: string) => void;
+  onRemove: () => void;
+}
+
+function CollectionEntryRow({
+  entry,
+  word,
+  isRemoved,
+  isFirst,
+  isLast,
+  onMove,
+  onNoteChange,
+  onRemove,
+}: CollectionEntryRowProps) {
+  const [note, setNote] = useState(entry.note ?? "");
+
+  return (
+    <li
+      className={cn(
+        "rounded-lg border p-3 space-y-2",
+        isRemoved && "border-dashed bg-muted/40",
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-3 min-w-0">
+          {word ? (
+            <>
+              <Link
+                to={`/word/${encodeURIComponent(word.id)}`}
+                className="text-xl font-chakma text-chakma-primary hover:underline"
+              >
+                {word.chakma_word_script}
+              </Link>
+              <span className="text-sm text-muted-foreground truncate">
+                {word.english_translation}
+              </span>
+            </>
+          ) : (
+            <span className="text-sm text-muted-foreground truncate">
+              Word {entry.word_id}
+            </span>
+          )}
+          {isRemoved && (
+            <Badge variant="outline" className="text-xs shrink-0">
+              Removed from dictionary
+            </Badge>
+          )}
+        </div>
+        <div className="flex shrink-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => onMove(-1)}
+            disabled={isFirst}
+            title="Move up"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => onMove(1)}
+            disabled={isLast}
+            title="Move down"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={onRemove}
+            title="Remove from list"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <Input
+        placeholder="Add a note"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        // Saved when the field is left, not on every keystroke
+        onBlur={() => note !== (entry.note ?? "") && onNoteChange(note)}
+        className="h-8 text-sm"
+      />
+    </li>
+  );
+}
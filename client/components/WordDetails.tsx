@@ -0,0 +1,174 @@
+/**
+ * Word Details
+ * Full entry for one word: synonyms, antonyms, example, etymology and
+ * media. Shown next to search results and on its own page at /word/:id.
+ */
+
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { ExternalLink, Heart, Link2, Volume2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import AddToListMenu from "@/components/AddToListMenu";
+
+import { Word } from "@shared/types";
+
+interface WordDetailsProps {
+  word: Word;
+  isFavorite: boolean;
+  onFavoriteToggle: () => void;
+  onPlayAudio: () => void;
+  /** Adds a link to the word's own page, for use outside of it */
+  showPageLink?: boolean;
+}
+
+export default function WordDetails({
+  word,
+  isFavorite,
+  onFavoriteToggle,
+  onPlayAudio,
+  showPageLink,
+}: WordDetailsProps) {
+  const [isAnimating, setIsAnimating] = useState(false);
+
+  const handleFavoriteClick = () => {
+    setIsAnimating(true);
+    onFavoriteToggle();
+
+    // Reset animation after completion - faster
+    setTimeout(() => setIsAnimating(false), 300);
+  };
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div className="space-y-2">
+            <CardTitle className="text-2xl md:text-3xl font-chakma text-chakma-primary">
+              {word.chakma_word_script}
+            </CardTitle>
+            <div className="text-sm md:text-base text-muted-foreground">
+              /{word.romanized_pronunciation}/
+            </div>
+            <h2 className="text-xl md:text-2xl font-semibold">
+              {word.english_translation}
+            </h2>
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            {showPageLink && (
+              <Button variant="outline" size="sm" asChild>
+                <Link to={`/word/${encodeURIComponent(word.id)}`}>
+                  <Link2 className="h-4 w-4 mr-2" />
+                  Open
+                </Link>
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={onPlayAudio}>
+              <Volume2 className="h-4 w-4 mr-2" />
+              Play
+            </Button>
+            <AddToListMenu wordId={word.id} />
+            <Button
+              variant={isFavorite ? "default" : "outline"}
+              size="sm"
+              onClick={handleFavoriteClick}
+              className="transition-all duration-200 hover:scale-105"
+            >
+              <Heart
+                className={cn(
+                  "h-4 w-4 mr-2 heart-icon transition-all duration-300",
+                  isFavorite ? "heart-favorite" : "heart-unfavorite",
+                  isAnimating &&
+                    (isFavorite ? "animate-fill" : "animate-bounce"),
+                )}
+              />
+              {isFavorite ? "Favorited" : "Favorite"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {/* Synonyms */}
+        {word.synonyms && word.synonyms.length > 0 && (
+          <div>
+            <h3 className="font-medium mb-2">Synonyms</h3>
+            <div className="flex flex-wrap gap-2">
+              {word.synonyms.map((syn, index) => (
+                <Badge
+                  key={index}
+                  variant="secondary"
+                  className={cn(syn.language === "chakma" && "font-chakma")}
+                >
+                  {syn.term}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Antonyms */}
+        {word.antonyms && word.antonyms.length > 0 && (
+          <div>
+            <h3 className="font-medium mb-2">Antonyms</h3>
+            <div className="flex flex-wrap gap-2">
+              {word.antonyms.map((ant, index) => (
+                <Badge
+                  key={index}
+                  variant="outline"
+                  className={cn(ant.language === "chakma" && "font-chakma")}
+                >
+                  {ant.term}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <Separator />
+
+        {/* Example Sentence */}
+        <div>
+          <h3 className="font-medium mb-2">Example Usage</h3>
+          <p className="text-muted-foreground italic">
+            {word.example_sentence}
+          </p>
+        </div>
+
+        {/* Etymology */}
+        <div>
+          <h3 className="font-medium mb-2">Etymology</h3>
+          <p className="text-muted-foreground">{word.etymology}</p>
+        </div>
+
+        {/* Visual Explanation */}
+        {word.explanation_media && (
+          <div>
+            <h3 className="font-medium mb-2">Visual Reference</h3>
+            {word.explanation_media.type === "url" ? (
+              <Button variant="outline" size="sm" asChild>
+                <a
+                  href={word.explanation_media.value}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  View Reference
+                </a>
+              </Button>
+            ) : (
+              <img
+                src={word.explanation_media.value}
+                alt={`Visual explanation for ${word.english_translation}`}
+                className="rounded-lg max-w-full h-auto"
+              />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
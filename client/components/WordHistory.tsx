@@ -0,0 +1,192 @@
+/**
+ * Word History
+ * Edit timeline from the audit log, filterable by word, editor and date.
+ */
+
+import React, { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { WORD_FIELDS, formatWordField } from "@/lib/wordFields";
+
+import { ContentManagementOperation, Word } from "@shared/types";
+
+const TYPE_LABELS: Record<ContentManagementOperation["type"], string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+const TYPE_VARIANTS = {
+  create: "default",
+  update: "secondary",
+  delete: "destructive",
+} as const;
+
+interface WordHistoryProps {
+  words: Word[];
+  /** Word to show the timeline of; empty for every word */
+  wordId: string;
+  onWordChange: (id: string) => void;
+}
+
+export default function WordHistory({
+  words,
+  wordId,
+  onWordChange,
+}: WordHistoryProps) {
+  const [actor, setActor] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [entries, setEntries] = useState<ContentManagementOperation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    (async () => {
+      try {
+        const { apiClient } = await import("@/lib/apiClient");
+        const result = await apiClient.getAuditLog({
+          target: "word",
+          target_id: wordId || undefined,
+          actor: actor.trim() || undefined,
+          // Date inputs give whole days; include all of the end day
+          from: from ? `${from}T00:00:00.000Z` : undefined,
+          to: to ? `${to}T23:59:59.999Z` : undefined,
+        });
+        if (!cancelled) {
+          setEntries(result);
+          setError("");
+        }
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message || "Failed to load history");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [wordId, actor, from, to]);
+
+  const sortedWords = [...words].sort((a, b) =>
+    a.romanized_pronunciation.localeCompare(b.romanized_pronunciation),
+  );
+
+  return (
+    <div className="h-full flex flex-col space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div>
+          <Label>Word</Label>
+          <select
+            value={wordId}
+            onChange={(e) => onWordChange(e.target.value)}
+            className="w-full px-3 py-2 border border-input rounded-lg bg-background"
+          >
+            <option value="">All words</option>
+            {sortedWords.map((word) => (
+              <option key={word.id} value={word.id}>
+                {word.romanized_pronunciation} — {word.english_translation}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label>Editor</Label>
+          <Input
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            placeholder="Any editor"
+          />
+        </div>
+        <div>
+          <Label>From</Label>
+          <Input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label>To</Label>
+          <Input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto space-y-2">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {!error && !isLoading && entries.length === 0 && (
+          <div className="text-center text-muted-foreground py-8">
+            <History className="h-10 w-10 mx-auto mb-2 opacity-50" />
+            No changes recorded for these filters.
+          </div>
+        )}
+        {entries.map((entry) => {
+          const word = (entry.after ?? entry.before) as Word | null;
+          const fields = WORD_FIELDS.filter(({ key }) =>
+            entry.changed_fields?.includes(key),
+          );
+          return (
+            <Card key={entry.id ?? entry.timestamp} className="p-4 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={TYPE_VARIANTS[entry.type]}>
+                  {TYPE_LABELS[entry.type]}
+                </Badge>
+                {word && (
+                  <span className="font-medium">
+                    <span className="font-chakma text-chakma-primary mr-2">
+                      {word.chakma_word_script}
+                    </span>
+                    {word.english_translation}
+                  </span>
+                )}
+                <span className="text-sm text-muted-foreground ml-auto">
+                  {entry.performed_by || "unknown"} ·{" "}
+                  {new Date(entry.timestamp).toLocaleString()}
+                </span>
+              </div>
+
+              {entry.type === "update" && fields.length > 0 && (
+                <div className="space-y-1 text-sm">
+                  {fields.map(({ key, label }) => (
+                    <div
+                      key={key}
+                      className="grid grid-cols-[8rem_1fr_1fr] gap-2"
+                    >
+                      <span className="text-muted-foreground">{label}</span>
+                      <span
+                        className={cn(
+                          "line-through text-muted-foreground break-words",
+                          key === "chakma_word_script" && "font-chakma",
+                        )}
+                      >
+                        {formatWordField(entry.before as Word, key)}
+                      </span>
+                      <span
+                        className={cn(
+                          "break-words",
+                          key === "chakma_word_script" && "font-chakma",
+                        )}
+                      >
+                        {formatWordField(entry.after as Word, key)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
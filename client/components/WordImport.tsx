@@ -0,0 +1,254 @@
+/**
+ * Word Import
+ * Uploads a CSV/TSV export with a column mapping, previews what the server
+ * would create, update or skip, then applies it as a single save.
+ */
+
+import React, { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Eye, Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { WORD_FIELDS } from "@/lib/wordFields";
+import {
+  WORD_IMPORT_FIELDS,
+  guessColumnMapping,
+  parseDelimited,
+} from "@shared/wordImport";
+
+import {
+  Word,
+  WordImportField,
+  WordImportResult,
+  WordImportRow,
+} from "@shared/types";
+
+interface WordImportProps {
+  /** Called with the created and updated words once an import is saved */
+  onImported: (words: Word[]) => void;
+}
+
+const fieldLabel = (key: string) =>
+  WORD_FIELDS.find((f) => f.key === key)?.label ?? key;
+
+const ACTION_STYLES: Record<WordImportRow["action"], string> = {
+  create: "text-green-700 dark:text-green-400",
+  update: "text-blue-700 dark:text-blue-400",
+  skip: "text-muted-foreground",
+  error: "text-destructive",
+};
+
+function rowDetail(row: WordImportRow): string {
+  if (row.errors) {
+    return Object.entries(row.errors)
+      .map(([path, message]) => `${fieldLabel(path)}: ${message}`)
+      .join("; ");
+  }
+  if (row.action === "update") {
+    return `Changes ${row.changed_fields.map(fieldLabel).join(", ")}`;
+  }
+  if (row.action === "skip") return "Already in the dictionary";
+  return row.word?.english_translation ?? "";
+}
+
+function rowWarning(row: WordImportRow): string {
+  return Object.entries(row.warnings ?? {})
+    .map(([path, message]) => `${fieldLabel(path)}: ${message}`)
+    .join("; ");
+}
+
+export default function WordImport({ onImported }: WordImportProps) {
+  const [fileName, setFileName] = useState("");
+  const [content, setContent] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<(WordImportField | null)[]>([]);
+  const [onDuplicate, setOnDuplicate] = useState<"skip" | "update">("skip");
+  const [preview, setPreview] = useState<WordImportResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const normalizedRows =
+    preview?.rows.filter((row) => row.warnings).length ?? 0;
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const text = await file.text();
+    const [firstRow = []] = parseDelimited(text);
+    setFileName(file.name);
+    setContent(text);
+    setHeaders(firstRow);
+    setMapping(guessColumnMapping(firstRow));
+    setPreview(null);
+  };
+
+  const updateMapping = (index: number, field: WordImportField | null) => {
+    setMapping((prev) =>
+      prev.map((current, i) => {
+        if (i === index) return field;
+        // A field maps to one column; picking it again moves it here
+        return current === field ? null : current;
+      }),
+    );
+    setPreview(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    setIsBusy(true);
+    try {
+      const { apiClient } = await import("@/lib/apiClient");
+      const result = await apiClient.importWords({
+        content,
+        mapping,
+        on_duplicate: onDuplicate,
+        dry_run: dryRun,
+      });
+      if (dryRun) {
+        setPreview(result);
+        return;
+      }
+      onImported(
+        result.rows
+          .filter((r) => r.action === "create" || r.action === "update")
+          .map((r) => r.word),
+      );
+      alert(
+        `Imported ${fileName}: ${result.created} created, ${result.updated} updated, ` +
+          `${result.skipped} skipped, ${result.failed} with errors.`,
+      );
+      setPreview(null);
+      setContent("");
+      setHeaders([]);
+      setMapping([]);
+      setFileName("");
+    } catch (e: any) {
+      alert(`Import failed: ${e?.message || e}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const canApply = !!preview && preview.created + preview.updated > 0;
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h3 className="font-medium">Import Words</h3>
+        <p className="text-sm text-muted-foreground">
+          Adds words from a CSV or TSV file with a header row. Preview the
+          changes first; applying saves them all in one commit.
+        </p>
+      </div>
+
+      <Input type="file" accept=".csv,.tsv,.txt" onChange={handleFile} />
+
+      {headers.length > 0 && (
+        <>
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            {headers.map((header, index) => (
+              <div
+                key={index}
+                className="grid grid-cols-[1fr_1fr] items-center gap-2 text-sm"
+              >
+                <span className="truncate">
+                  {header || `Column ${index + 1}`}
+                </span>
+                <select
+                  value={mapping[index] ?? ""}
+                  onChange={(e) =>
+                    updateMapping(
+                      index,
+                      (e.target.value || null) as WordImportField | null,
+                    )
+                  }
+                  className="w-full px-3 py-2 border border-input rounded-lg bg-background"
+                >
+                  <option value="">Ignore</option>
+                  {WORD_IMPORT_FIELDS.map((field) => (
+                    <option key={field} value={field}>
+                      {fieldLabel(field)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <Label>Words already in the dictionary</Label>
+            <select
+              value={onDuplicate}
+              onChange={(e) => {
+                setOnDuplicate(e.target.value as "skip" | "update");
+                setPreview(null);
+              }}
+              className="w-full px-3 py-2 border border-input rounded-lg bg-background"
+            >
+              <option value="skip">Skip them</option>
+              <option value="update">Update them with the file's values</option>
+            </select>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => runImport(true)}
+              disabled={isBusy || !mapping.includes("chakma_word_script")}
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              Preview
+            </Button>
+            <Button
+              onClick={() => runImport(false)}
+              disabled={isBusy || !canApply}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Apply Import
+            </Button>
+          </div>
+        </>
+      )}
+
+      {preview && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">{preview.created} new</Badge>
+            <Badge variant="outline">{preview.updated} updated</Badge>
+            <Badge variant="outline">{preview.skipped} skipped</Badge>
+            <Badge variant={preview.failed ? "destructive" : "outline"}>
+              {preview.failed} with errors
+            </Badge>
+            {normalizedRows > 0 && (
+              <Badge variant="outline">{normalizedRows} to normalize</Badge>
+            )}
+          </div>
+          <div className="max-h-64 overflow-auto space-y-1">
+            {preview.rows.map((row) => (
+              <div
+                key={row.row}
+                className="grid grid-cols-[3rem_4rem_6rem_1fr] items-center gap-2 text-sm"
+              >
+                <span className="text-muted-foreground">#{row.row}</span>
+                <span className={cn("capitalize", ACTION_STYLES[row.action])}>
+                  {row.action}
+                </span>
+                <span className="font-chakma text-chakma-primary text-lg truncate">
+                  {(row.word ?? row.before)?.chakma_word_script ?? "—"}
+                </span>
+                <span className="text-muted-foreground">{rowDetail(row)}</span>
+                {row.warnings && (
+                  <span className="col-start-4 text-amber-700 dark:text-amber-400">
+                    {rowWarning(row)}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
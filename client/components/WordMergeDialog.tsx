@@ -0,0 +1,143 @@
+/**
+ * Word Merge Dialog
+ * Shown when saving a word that someone else changed in the meantime.
+ * Lists the fields that differ and lets the editor pick a version of each.
+ */
+
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+import { Word } from "@shared/types";
+import {
+  WORD_FIELDS,
+  formatWordField,
+  isSameValue,
+  type WordField,
+} from "@/lib/wordFields";
+
+type Choice = "mine" | "theirs";
+
+interface WordMergeDialogProps {
+  open: boolean;
+  mine: Word;
+  /** Server copy, or null when the word has been deleted */
+  theirs: Word | null;
+  onResolve: (merged: Word) => void;
+  onCancel: () => void;
+}
+
+export default function WordMergeDialog({
+  open,
+  mine,
+  theirs,
+  onResolve,
+  onCancel,
+}: WordMergeDialogProps) {
+  const conflicting = theirs
+    ? WORD_FIELDS.filter(({ key }) => !isSameValue(mine[key], theirs[key]))
+    : [];
+  const [choices, setChoices] = useState<Partial<Record<WordField, Choice>>>(
+    {},
+  );
+
+  useEffect(() => {
+    if (open) setChoices({});
+  }, [open, theirs]);
+
+  const handleResolve = () => {
+    if (!theirs) return;
+    const merged: Word = { ...theirs };
+    for (const { key } of conflicting) {
+      const source = (choices[key] ?? "mine") === "mine" ? mine : theirs;
+      (merged as any)[key] = source[key];
+    }
+    onResolve(merged);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            {theirs
+              ? "This word was changed meanwhile"
+              : "This word was deleted"}
+          </DialogTitle>
+          <DialogDescription>
+            {theirs
+              ? "Someone else saved this word after you opened it. Choose which version of each field to keep."
+              : "Someone else deleted this word after you opened it. Your changes can only be kept by saving it as a new word."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {theirs && (
+          <div className="max-h-[50vh] overflow-auto space-y-3">
+            {conflicting.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Your version already matches the server copy.
+              </p>
+            )}
+            {conflicting.map(({ key, label }) => {
+              const choice = choices[key] ?? "mine";
+              return (
+                <div key={key} className="space-y-1">
+                  <div className="text-sm font-medium">{label}</div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(["theirs", "mine"] as Choice[]).map((side) => (
+                      <button
+                        key={side}
+                        type="button"
+                        onClick={() =>
+                          setChoices((prev) => ({ ...prev, [key]: side }))
+                        }
+                        className={cn(
+                          "text-left rounded-lg border p-3 text-sm transition-colors",
+                          choice === side
+                            ? "border-primary bg-primary/10"
+                            : "hover:bg-muted",
+                          key === "chakma_word_script" && "font-chakma",
+                        )}
+                      >
+                        <div className="text-xs text-muted-foreground mb-1">
+                          {side === "mine" ? "Your version" : "Server version"}
+                        </div>
+                        <div className="break-words">
+                          {formatWordField(
+                            side === "mine" ? mine : theirs,
+                            key,
+                          )}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Keep Editing
+          </Button>
+          {theirs ? (
+            <Button onClick={handleResolve}>Save Merged Word</Button>
+          ) : (
+            <Button onClick={() => onResolve({ ...mine, id: "" })}>
+              Save as New Word
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,230 @@
+/**
+ * Word Revisions Dialog
+ * Lists the saved versions of a word from the audit log, compares one
+ * side by side with the current copy and reverts to it in one click.
+ */
+
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { RevisionConflictError } from "@/lib/apiClient";
+import { WORD_FIELDS, formatWordField, isSameValue } from "@/lib/wordFields";
+
+import { ContentManagementOperation, Word } from "@shared/types";
+
+interface WordVersion {
+  key: string;
+  entryId: string;
+  version: "before" | "after";
+  word: Word;
+  label: string;
+  detail: string;
+}
+
+// Every entry yields the version it saved (or, for deletes, the version it
+// removed). An update as the oldest entry also yields the pre-log original.
+function toVersions(entries: ContentManagementOperation[]): WordVersion[] {
+  const versions: WordVersion[] = [];
+  for (const entry of entries) {
+    const word = (entry.after ?? entry.before) as Word | null;
+    if (!word || !entry.id) continue;
+    versions.push({
+      key: entry.id,
+      entryId: entry.id,
+      version: entry.after ? "after" : "before",
+      word,
+      label:
+        entry.type === "delete"
+          ? "Before deletion"
+          : entry.type === "create"
+            ? "Created"
+            : "Edited",
+      detail: `${entry.performed_by || "unknown"} · ${new Date(entry.timestamp).toLocaleString()}`,
+    });
+  }
+  const oldest = entries[entries.length - 1];
+  if (oldest?.id && oldest.type === "update" && oldest.before) {
+    versions.push({
+      key: `${oldest.id}-before`,
+      entryId: oldest.id,
+      version: "before",
+      word: oldest.before as Word,
+      label: "Original",
+      detail: "Before the first recorded edit",
+    });
+  }
+  return versions;
+}
+
+interface WordRevisionsProps {
+  /** Word whose revisions to show; the dialog is open while set */
+  word: Word | null;
+  onClose: () => void;
+  onReverted: (word: Word) => void;
+}
+
+export default function WordRevisions({
+  word,
+  onClose,
+  onReverted,
+}: WordRevisionsProps) {
+  const [versions, setVersions] = useState<WordVersion[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [current, setCurrent] = useState<Word | null>(null);
+  const [revision, setRevision] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isReverting, setIsReverting] = useState(false);
+
+  const load = async (target: Word) => {
+    setIsLoading(true);
+    try {
+      const { apiClient } = await import("@/lib/apiClient");
+      const [entries, latest] = await Promise.all([
+        apiClient.getAuditLog({ target: "word", target_id: target.id }),
+        apiClient.getWord(target.id),
+      ]);
+      const next = toVersions(entries);
+      setVersions(next);
+      setSelectedKey(next[0]?.key ?? null);
+      setCurrent(latest.word);
+      setRevision(latest.revision);
+    } catch (e: any) {
+      alert(`Could not load revisions: ${e?.message || e}`);
+      onClose();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (word) load(word);
+    else setVersions([]);
+  }, [word?.id]);
+
+  const selected = versions.find((v) => v.key === selectedKey) ?? null;
+  const differs = ({ key }: (typeof WORD_FIELDS)[number]) =>
+    !!selected && !isSameValue(selected.word[key], current?.[key]);
+  const hasChanges = WORD_FIELDS.some(differs);
+
+  const handleRevert = async () => {
+    if (!word || !selected) return;
+    setIsReverting(true);
+    try {
+      const { apiClient } = await import("@/lib/apiClient");
+      const restored = await apiClient.revertWord(
+        word.id,
+        { entry_id: selected.entryId, version: selected.version },
+        revision,
+      );
+      onReverted(restored);
+      onClose();
+    } catch (e: any) {
+      if (e instanceof RevisionConflictError) {
+        alert("This word was changed meanwhile. Reloading its revisions.");
+        await load(word);
+      } else {
+        alert(`Revert failed: ${e?.message || e}`);
+      }
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!word} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Revisions</DialogTitle>
+          <DialogDescription>
+            {word
+              ? `${word.romanized_pronunciation} — ${word.english_translation}`
+              : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading revisions…</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No revisions have been recorded for this word yet.
+          </p>
+        ) : (
+          <div className="grid grid-cols-[14rem_1fr] gap-4 max-h-[60vh]">
+            <div className="overflow-auto space-y-1 pr-1">
+              {versions.map((version) => (
+                <button
+                  key={version.key}
+                  type="button"
+                  onClick={() => setSelectedKey(version.key)}
+                  className={cn(
+                    "w-full text-left rounded-lg border p-2 text-sm transition-colors",
+                    version.key === selectedKey
+                      ? "border-primary bg-primary/10"
+                      : "hover:bg-muted",
+                  )}
+                >
+                  <div className="font-medium">{version.label}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {version.detail}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <div className="overflow-auto">
+              <div className="grid grid-cols-[8rem_1fr_1fr] gap-2 text-xs text-muted-foreground mb-2">
+                <span />
+                <span>Selected version</span>
+                <span>Current</span>
+              </div>
+              {WORD_FIELDS.map((field) => (
+                <div
+                  key={field.key}
+                  className={cn(
+                    "grid grid-cols-[8rem_1fr_1fr] gap-2 rounded p-1 text-sm",
+                    differs(field) && "bg-amber-100/60 dark:bg-amber-900/30",
+                  )}
+                >
+                  <span className="text-muted-foreground">{field.label}</span>
+                  {[selected?.word, current].map((side, i) => (
+                    <span
+                      key={i}
+                      className={cn(
+                        "break-words",
+                        field.key === "chakma_word_script" && "font-chakma",
+                      )}
+                    >
+                      {formatWordField(side, field.key)}
+                    </span>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            onClick={handleRevert}
+            disabled={!selected || !hasChanges || isReverting}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Revert to This Version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
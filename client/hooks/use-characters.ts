@@ -0,0 +1,11 @@
+import type { Character } from "@shared/types";
+import { useDictionary } from "@/hooks/use-dictionary";
+
+/**
+ * The character inventory, read from the offline cache and kept in sync with
+ * /api/characters. The bundled sample characters stand in until either has
+ * loaded.
+ */
+export function useCharacters(): Character[] {
+  return useDictionary().characters;
+}
@@ -0,0 +1,86 @@
+import * as React from "react";
+import { sampleCharacters, sampleWords } from "@shared/sampleData";
+import {
+  readCachedDictionary,
+  syncDictionary,
+  type DictionarySnapshot,
+} from "@/lib/offlineCache";
+
+/** Where the words on screen came from, freshest last */
+export type DictionarySource = "sample" | "cache" | "live";
+
+interface DictionaryState extends DictionarySnapshot {
+  source: DictionarySource;
+}
+
+// One copy for the whole app, so pages share a single cache read and sync
+let state: DictionaryState = {
+  words: sampleWords,
+  characters: sampleCharacters,
+  source: "sample",
+};
+const listeners = new Set<() => void>();
+let refreshing: Promise<void> | null = null;
+
+function publish(snapshot: DictionarySnapshot, source: DictionarySource) {
+  state = { ...snapshot, source };
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Shows the IndexedDB copy first, then syncs it with the API in the
+ * background. Concurrent calls share one run; offline, the cached (or
+ * bundled sample) words stay in place.
+ */
+export function refreshDictionary(): Promise<void> {
+  if (!refreshing) {
+    refreshing = (async () => {
+      if (state.source === "sample") {
+        const cached = await readCachedDictionary().catch(() => null);
+        if (cached?.words.length) publish(cached, "cache");
+      }
+      try {
+        publish(await syncDictionary(), "live");
+      } catch (e) {
+        console.warn(
+          `Dictionary sync failed, showing ${state.source} data:`,
+          e,
+        );
+      }
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  if (listeners.size === 1) {
+    window.addEventListener("focus", refreshDictionary);
+    window.addEventListener("online", refreshDictionary);
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener("focus", refreshDictionary);
+      window.removeEventListener("online", refreshDictionary);
+    }
+  };
+}
+
+/**
+ * Words and characters for reading pages: cached first, refreshed on mount,
+ * when the window regains focus and when the connection comes back.
+ */
+export function useDictionary(): DictionaryState {
+  const current = React.useSyncExternalStore(
+    subscribe,
+    () => state,
+    () => state,
+  );
+  React.useEffect(() => {
+    refreshDictionary();
+  }, []);
+  return current;
+}
@@ -0,0 +1,40 @@
+import * as React from "react";
+import { transliterateAtCaret } from "@/lib/chakmaKeyboard";
+import { buildTransliterationRules } from "@shared/transliteration";
+import { sampleCharacters } from "@shared/sampleData";
+import type { Character } from "@shared/types";
+
+/**
+ * "Type romanized, get script" mode for a text input. While enabled, the
+ * word before the caret is transliterated on every change.
+ */
+export function useTransliteration(
+  inputRef: React.RefObject<HTMLInputElement | HTMLTextAreaElement>,
+  onChange: (value: string) => void,
+  characters: Character[] = sampleCharacters,
+) {
+  const [enabled, setEnabled] = React.useState(false);
+  const rules = React.useMemo(
+    () => buildTransliterationRules(characters),
+    [characters],
+  );
+
+  const handleChange = (value: string) => {
+    const input = inputRef.current;
+    if (!enabled || !input) {
+      onChange(value);
+      return;
+    }
+    const edit = transliterateAtCaret(
+      value,
+      input.selectionStart ?? value.length,
+      rules,
+    );
+    onChange(edit.value);
+    requestAnimationFrame(() =>
+      input.setSelectionRange(edit.caret, edit.caret),
+    );
+  };
+
+  return { enabled, setEnabled, handleChange };
+}
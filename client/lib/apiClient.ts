@@ -1,74 +1,267 @@
-export type ApiWord = {
-  id: string;
-  chakma_word_script: string;
-  audio_pronunciation_url?: string;
-  romanized_pronunciation: string;
-  english_translation: string;
-  synonyms?: { term: string; language: 'chakma' | 'english' }[];
-  antonyms?: { term: string; language: 'chakma' | 'english' }[];
-  example_sentence: string;
-  etymology: string;
-  explanation_media?: { type: 'url' | 'image'; value: string };
-  is_verified?: boolean;
-  created_at?: string;
-  updated_at?: string;
-};
+import type {
+  AuditLogQuery,
+  AuthSession,
+  Character,
+  ContentManagementOperation,
+  RevisionConflictResponse,
+  SearchOptions,
+  SearchResponse,
+  ValidationErrorResponse,
+  Word,
+  WordBatchOperation,
+  WordBatchResult,
+  WordChanges,
+  WordImportRequest,
+  WordImportResult,
+  WordRevertRequest,
+} from '@shared/types';
+import {
+  buildRequest,
+  type ApiRoute,
+  type CharacterInput,
+  type RouteRequest,
+  type RouteResponse,
+  type WordInput,
+} from '@shared/api';
+import { DeveloperConsoleManager } from '@/lib/storage';
 
 const BASE_URL = '/api';
 
-async function http<T>(input: RequestInfo, init?: RequestInit): Promise<T> {
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly body: unknown) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Thrown when a write carried a stale revision; holds the server's copy
+export class RevisionConflictError<T = Word> extends ApiError {
+  readonly current: T | null;
+  readonly revision: string | null;
+
+  constructor(message: string, body: RevisionConflictResponse<T>) {
+    super(message, 409, body);
+    this.name = 'RevisionConflictError';
+    this.current = body.conflict.current;
+    this.revision = body.conflict.revision;
+  }
+}
+
+// Thrown when the server rejects a payload; messages are keyed by field path
+export class ValidationError extends ApiError {
+  readonly fieldErrors: Record<string, string>;
+
+  constructor(message: string, body: ValidationErrorResponse) {
+    super(message, 400, body);
+    this.name = 'ValidationError';
+    this.fieldErrors = body.field_errors;
+  }
+}
+
+async function send(input: RequestInfo, init?: RequestInit): Promise<Response> {
+  const session = DeveloperConsoleManager.getSession();
   const res = await fetch(input, {
+    credentials: 'include',
+    ...init,
     headers: {
       'Content-Type': 'application/json',
+      ...(session ? { Authorization: `Bearer ${session.token}` } : {}),
+      ...init?.headers,
     },
-    credentials: 'include',
-    ...init,
   });
+  if (res.status === 401) DeveloperConsoleManager.clearSession();
   if (!res.ok) {
     const text = await res.text().catch(() => '');
-    throw new Error(text || `HTTP ${res.status}`);
+    let body: any = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON; keep the raw text
+    }
+    const message = body?.error || text || `HTTP ${res.status}`;
+    if (res.status === 409 && body?.conflict) {
+      throw new RevisionConflictError(message, body);
+    }
+    if (res.status === 400 && body?.field_errors) {
+      throw new ValidationError(message, body);
+    }
+    throw new ApiError(message, res.status, body);
   }
-  if (res.status === 204) return undefined as unknown as T;
-  return (await res.json()) as T;
+  return res;
+}
+
+/**
+ * Calls an API route with the body, query and response types declared for it
+ * in `ApiRoutes`. Returns the parsed response and its headers.
+ */
+async function call<R extends ApiRoute>(
+  route: R,
+  ...[request = {} as RouteRequest<R>]: {} extends RouteRequest<R> ? [RouteRequest<R>?] : [RouteRequest<R>]
+): Promise<{ body: RouteResponse<R>; headers: Headers }> {
+  const { method, url } = buildRequest(route, request, BASE_URL);
+  const res = await send(url, {
+    method,
+    headers: request.headers,
+    body: request.body === undefined ? undefined : JSON.stringify(request.body),
+  });
+  const body = res.status === 204 ? undefined : await res.json();
+  return { body: body as RouteResponse<R>, headers: res.headers };
+}
+
+// Bare revision from an ETag header
+const revisionOf = (headers: Headers): string | null => {
+  const etag = headers.get('ETag');
+  return etag ? etag.replace(/^W\//, '').replace(/"/g, '') : null;
+};
+
+// ETags are quoted on the wire; revisions are passed around bare
+const toIfMatch = (revision?: string | null): Record<string, string> =>
+  revision ? { 'If-Match': `"${revision}"` } : {};
+
+async function login(username: string, password: string): Promise<AuthSession> {
+  const { body } = await call('POST /auth/login', { body: { username, password } });
+  DeveloperConsoleManager.setSession(body.data);
+  return body.data;
+}
+
+function logout(): void {
+  DeveloperConsoleManager.clearSession();
 }
 
-async function getWords(): Promise<ApiWord[]> {
-  const data = await http<{ success: boolean; data: ApiWord[] }>(`${BASE_URL}/words`);
-  return data.data || [];
+async function getWords(): Promise<Word[]> {
+  const { body } = await call('GET /words');
+  return body.data || [];
 }
 
-async function createWord(word: Omit<ApiWord, 'id'> & { id?: string }): Promise<ApiWord> {
-  const data = await http<{ success: boolean; data: ApiWord }>(`${BASE_URL}/words`, {
-    method: 'POST',
-    body: JSON.stringify(word),
+/**
+ * Words created, updated and deleted since a cursor from an earlier call;
+ * without one, every word as created. Pass the returned `cursor` next time.
+ */
+async function getWordChanges(since?: string): Promise<WordChanges> {
+  const { body } = await call('GET /words/changes', { query: { since } });
+  return body.data;
+}
+
+/** Ranked dictionary search, one page at a time */
+async function searchWords(
+  options: SearchOptions,
+  page = 1,
+  perPage?: number,
+): Promise<SearchResponse> {
+  const { body } = await call('GET /search', {
+    query: {
+      q: options.query,
+      page,
+      per_page: perPage,
+      fields: options.search_fields?.join(','),
+      exact: options.exact_match || undefined,
+      fuzzy: options.fuzzy === false ? false : undefined,
+    },
   });
-  return data.data as ApiWord;
+  return body.data;
+}
+
+async function getWord(id: string): Promise<{ word: Word; revision: string | null }> {
+  const { body, headers } = await call('GET /words/:id', { params: { id } });
+  return { word: body.data, revision: revisionOf(headers) };
+}
+
+async function createWord(word: WordInput): Promise<Word> {
+  const { body } = await call('POST /words', { body: word });
+  return body.data;
 }
 
-async function updateWord(id: string, update: Partial<ApiWord>): Promise<ApiWord> {
-  const data = await http<{ success: boolean; data: ApiWord }>(`${BASE_URL}/words/${encodeURIComponent(id)}`, {
-    method: 'PUT',
-    body: JSON.stringify(update),
+/**
+ * Updates a word. Pass the revision from `getWord` to have the server reject
+ * the write with a `RevisionConflictError` if someone else saved first.
+ */
+async function updateWord(id: string, update: Partial<Word>, revision?: string | null): Promise<Word> {
+  const { body } = await call('PUT /words/:id', {
+    params: { id },
+    headers: toIfMatch(revision),
+    body: update,
   });
-  return data.data as ApiWord;
+  return body.data;
+}
+
+/** Restores a version recorded in the audit log; brings back deleted words */
+async function revertWord(id: string, request: WordRevertRequest, revision?: string | null): Promise<Word> {
+  const { body } = await call('POST /words/:id/revert', {
+    params: { id },
+    headers: toIfMatch(revision),
+    body: request,
+  });
+  return body.data;
+}
+
+/**
+ * Applies several edits in one save. Fails as a whole: a stale revision
+ * throws a `RevisionConflictError` and nothing is written.
+ */
+async function batchWords(operations: WordBatchOperation[]): Promise<WordBatchResult> {
+  const { body } = await call('POST /words/batch', { body: { operations } });
+  return body.data;
+}
+
+/** Imports a CSV/TSV export; with `dry_run` only reports what would change */
+async function importWords(request: WordImportRequest): Promise<WordImportResult> {
+  const { body } = await call('POST /words/import', { body: request });
+  return body.data;
 }
 
 async function deleteWord(id: string): Promise<void> {
-  await http<{ success: boolean; message: string }>(`${BASE_URL}/words/${encodeURIComponent(id)}`, {
-    method: 'DELETE',
+  await call('DELETE /words/:id', { params: { id } });
+}
+
+async function getCharacters(): Promise<Character[]> {
+  const { body } = await call('GET /characters');
+  return body.data || [];
+}
+
+async function getCharacter(id: string): Promise<{ character: Character; revision: string | null }> {
+  const { body, headers } = await call('GET /characters/:id', { params: { id } });
+  return { character: body.data, revision: revisionOf(headers) };
+}
+
+async function createCharacter(character: CharacterInput): Promise<Character> {
+  const { body } = await call('POST /characters', { body: character });
+  return body.data;
+}
+
+/** Updates a character; a stale `revision` fails with a `RevisionConflictError` */
+async function updateCharacter(
+  id: string,
+  update: Partial<Character>,
+  revision?: string | null,
+): Promise<Character> {
+  const { body } = await call('PUT /characters/:id', {
+    params: { id },
+    headers: toIfMatch(revision),
+    body: update,
   });
+  return body.data;
+}
+
+async function deleteCharacter(id: string): Promise<void> {
+  await call('DELETE /characters/:id', { params: { id } });
+}
+
+/** Content change history, newest first. Requires a signed-in editor. */
+async function getAuditLog(query: AuditLogQuery = {}): Promise<ContentManagementOperation[]> {
+  const { body } = await call('GET /audit', { query });
+  return body.data || [];
 }
 
 async function triggerRebuild(): Promise<void> {
-  await http<{ success: boolean; message: string }>(`${BASE_URL}/rebuild`, { method: 'POST' });
+  await call('POST /rebuild');
 }
 
 async function uploadBase64(kind: 'audio' | 'image', fileName: string, base64Data: string): Promise<string> {
-  const data = await http<{ success: boolean; url: string }>(`${BASE_URL}/upload/${kind}`, {
-    method: 'POST',
-    body: JSON.stringify({ fileName, contentBase64: base64Data }),
+  const { body } = await call('POST /upload/:kind', {
+    params: { kind },
+    body: { fileName, contentBase64: base64Data },
   });
-  return data.url;
+  return body.url;
 }
 
 async function uploadFile(kind: 'audio' | 'image', file: File): Promise<string> {
@@ -83,12 +276,27 @@ async function uploadFile(kind: 'audio' | 'image', file: File): Promise<string>
 }
 
 export const apiClient = {
+  call,
+  login,
+  logout,
   getWords,
+  getWordChanges,
+  searchWords,
+  getWord,
   createWord,
   updateWord,
+  revertWord,
+  batchWords,
+  importWords,
   deleteWord,
+  getCharacters,
+  getCharacter,
+  createCharacter,
+  updateCharacter,
+  deleteCharacter,
   uploadAudio: (file: File) => uploadFile('audio', file),
   uploadImage: (file: File) => uploadFile('image', file),
+  getAuditLog,
   triggerRebuild,
 };
 
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildKeyboardLayout,
+  canAttachMark,
+  deleteBackward,
+  insertKey,
+  transliterateAtCaret,
+} from "./chakmaKeyboard";
+import { DEFAULT_TRANSLITERATION } from "@shared/transliteration";
+import type { Character } from "@shared/types";
+
+const KA = "\u{11107}";
+const I_SIGN = "\u{11128}";
+const E_SIGN = "\u{1112C}";
+const VIRAMA = "\u{11133}";
+const ANUSVARA = "\u{11101}";
+
+const character = (character_script: string, romanized_name: string) =>
+  ({ character_script, romanized_name }) as Character;
+
+describe("buildKeyboardLayout", () => {
+  it("groups keys by code point and always offers viramas", () => {
+    const layout = buildKeyboardLayout([
+      character(KA, "ka"),
+      character(I_SIGN, "i"),
+      character("\u{11137}", "1"),
+    ]);
+    expect(layout.letters.map((k) => k.value)).toEqual([KA]);
+    expect(layout.marks.map((k) => k.value)).toEqual([
+      I_SIGN,
+      VIRAMA,
+      "\u{11134}",
+    ]);
+    expect(layout.digits).toHaveLength(1);
+  });
+});
+
+describe("canAttachMark", () => {
+  it("needs a base letter", () => {
+    expect(canAttachMark("", I_SIGN)).toBe(false);
+    expect(canAttachMark("a ", I_SIGN)).toBe(false);
+    expect(canAttachMark(KA, I_SIGN)).toBe(true);
+    expect(canAttachMark(KA + I_SIGN, ANUSVARA)).toBe(true);
+  });
+
+  it("only allows a virama straight after a consonant", () => {
+    expect(canAttachMark(KA, VIRAMA)).toBe(true);
+    expect(canAttachMark(KA + I_SIGN, VIRAMA)).toBe(false);
+    expect(canAttachMark(KA + VIRAMA, I_SIGN)).toBe(false);
+  });
+});
+
+describe("insertKey", () => {
+  it("inserts at the caret and normalizes mark order", () => {
+    const edit = insertKey(KA + ANUSVARA, 4, 4, I_SIGN);
+    expect(edit).toEqual({ value: KA + I_SIGN + ANUSVARA, caret: 6 });
+  });
+
+  it("replaces the selection", () => {
+    expect(insertKey(KA + KA, 0, 2, E_SIGN)).toBeNull();
+    expect(insertKey("ab", 0, 2, KA)).toEqual({ value: KA, caret: 2 });
+  });
+});
+
+describe("deleteBackward", () => {
+  it("removes a whole astral code point", () => {
+    expect(deleteBackward(KA + I_SIGN, 4, 4)).toEqual({ value: KA, caret: 2 });
+    expect(deleteBackward("", 0, 0)).toEqual({ value: "", caret: 0 });
+  });
+});
+
+describe("transliterateAtCaret", () => {
+  it("converts the word before the caret, including earlier script", () => {
+    const rules = DEFAULT_TRANSLITERATION;
+    expect(transliterateAtCaret("ad", 2, rules)).toEqual({
+      value: "𑄃𑄘𑄴",
+      caret: 6,
+    });
+    expect(transliterateAtCaret("𑄃𑄘𑄴o rest", 7, rules)).toEqual({
+      value: "𑄃𑄘𑄮 rest",
+      caret: 6,
+    });
+    expect(transliterateAtCaret("𑄃𑄘𑄮 ", 7, rules).value).toBe("𑄃𑄘𑄮 ");
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  CHAKMA_MAAYYAA,
+  CHAKMA_VIRAMA,
+  isChakma,
+  isChakmaConsonant,
+  isChakmaDigit,
+  isChakmaLetter,
+  isChakmaMark,
+  isChakmaVirama,
+  normalizeChakma,
+} from "@shared/chakma";
+import {
+  chakmaToRoman,
+  romanToChakma,
+  type TransliterationRule,
+} from "@shared/transliteration";
+import type { Character } from "@shared/types";
+
+export interface KeyboardKey {
+  value: string;
+  label?: string;
+}
+
+export interface KeyboardLayout {
+  letters: KeyboardKey[];
+  marks: KeyboardKey[];
+  digits: KeyboardKey[];
+  other: KeyboardKey[];
+}
+
+/** Text after an edit and where the caret goes */
+export interface TextEdit {
+  value: string;
+  caret: number;
+}
+
+// Not every character list includes the killers, but conjuncts need them
+const VIRAMA_KEYS: KeyboardKey[] = [
+  { value: CHAKMA_VIRAMA, label: "virama" },
+  { value: CHAKMA_MAAYYAA, label: "maayyaa" },
+];
+
+/**
+ * Groups characters into keyboard rows by what they are in Unicode rather
+ * than by `character_type`, so marks are always handled as marks.
+ */
+export function buildKeyboardLayout(characters: Character[]): KeyboardLayout {
+  const layout: KeyboardLayout = {
+    letters: [],
+    marks: [],
+    digits: [],
+    other: [],
+  };
+  const seen = new Set<string>();
+  for (const { character_script, romanized_name } of characters) {
+    const value = character_script.trim();
+    if (!value || seen.has(value)) continue;
+    seen.add(value);
+    const key = { value, label: romanized_name };
+    const first = String.fromCodePoint(value.codePointAt(0)!);
+    if (isChakmaMark(first)) layout.marks.push(key);
+    else if (isChakmaDigit(first)) layout.digits.push(key);
+    else if (isChakmaLetter(first)) layout.letters.push(key);
+    else layout.other.push(key);
+  }
+  for (const key of VIRAMA_KEYS) {
+    if (!seen.has(key.value)) layout.marks.push(key);
+  }
+  return layout;
+}
+
+const lastCodePoint = (text: string) => [...text.slice(-2)].pop();
+
+/**
+ * Whether `mark` can attach to the cluster ending at the caret: viramas
+ * only directly after a consonant, vowel signs and other marks after a
+ * letter that has not been killed by a virama.
+ */
+export function canAttachMark(before: string, mark: string): boolean {
+  const prev = lastCodePoint(before);
+  if (!prev) return false;
+  if (isChakmaVirama(mark)) return isChakmaConsonant(prev);
+  const chars = [...before];
+  let i = chars.length - 1;
+  while (i >= 0 && isChakmaMark(chars[i])) {
+    if (isChakmaVirama(chars[i])) return false;
+    i--;
+  }
+  return i >= 0 && isChakmaLetter(chars[i]);
+}
+
+/**
+ * Inserts a key at the selection. The text before the caret is normalized
+ * so marks typed in any order end up canonical. Returns null when a mark
+ * has nothing to attach to.
+ */
+export function insertKey(
+  value: string,
+  start: number,
+  end: number,
+  key: string,
+): TextEdit | null {
+  const before = value.slice(0, start);
+  const first = String.fromCodePoint(key.codePointAt(0)!);
+  if (isChakmaMark(first) && !canAttachMark(before, first)) return null;
+  const next = normalizeChakma(before + key);
+  return { value: next + value.slice(end), caret: next.length };
+}
+
+/** Deletes the selection, or the code point before the caret */
+export function deleteBackward(
+  value: string,
+  start: number,
+  end: number,
+): TextEdit {
+  if (start !== end) {
+    return { value: value.slice(0, start) + value.slice(end), caret: start };
+  }
+  const prev = lastCodePoint(value.slice(0, start));
+  if (!prev) return { value, caret: start };
+  const caret = start - prev.length;
+  return { value: value.slice(0, caret) + value.slice(end), caret };
+}
+
+/**
+ * Romanized typing: converts the word before the caret, which mixes script
+ * converted earlier with the Latin letters just typed, into script. The
+ * converted part is read back to its romanization first, so "𑄃𑄘𑄴" + "o"
+ * becomes "ado" and then "𑄃𑄘𑄮".
+ */
+export function transliterateAtCaret(
+  value: string,
+  caret: number,
+  rules: TransliterationRule[],
+): TextEdit {
+  const romanChars = new Set(rules.flatMap((r) => [...r.roman]));
+  const chars = [...value.slice(0, caret)];
+  let start = chars.length;
+  while (
+    start > 0 &&
+    (isChakma(chars[start - 1]) ||
+      romanChars.has(chars[start - 1].toLowerCase()))
+  ) {
+    start--;
+  }
+  const word = chars.slice(start);
+  if (word.every(isChakma)) return { value, caret };
+
+  const head =
+    chars.slice(0, start).join("") +
+    romanToChakma(chakmaToRoman(word.join(""), rules), rules);
+  return { value: head + value.slice(caret), caret: head.length };
+}
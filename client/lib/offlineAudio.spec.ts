@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Word } from "@shared/types";
+import { audioUrlsFor, syncOfflineAudio } from "./offlineAudio";
+
+const word = (id: string, audio?: string): Word => ({
+  id,
+  chakma_word_script: "\u{11107}",
+  romanized_pronunciation: "ka",
+  english_translation: "a",
+  example_sentence: "",
+  etymology: "",
+  audio_pronunciation_url: audio,
+});
+
+describe("audioUrlsFor", () => {
+  const words = [
+    word("1", "/audio/ka.mp3"),
+    word("2", "/audio/kha.mp3"),
+    word("3"),
+    word("4", "/audio/ka.mp3"),
+  ];
+
+  it("covers favorites only, or every word without repeats", () => {
+    expect(audioUrlsFor(words, "favorites", ["2", "3"])).toEqual([
+      "/audio/kha.mp3",
+    ]);
+    expect(audioUrlsFor(words, "all", [])).toEqual([
+      "/audio/ka.mp3",
+      "/audio/kha.mp3",
+    ]);
+    expect(audioUrlsFor(words, "off", ["1"])).toEqual([]);
+  });
+});
+
+describe("syncOfflineAudio", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  // Cache Storage with one cache, keyed by absolute URL
+  function stubCaches(saved: string[]) {
+    const entries = new Map(saved.map((url) => [url, new Response("saved")]));
+    vi.stubGlobal("location", { href: "https://chakmalex.test/" });
+    vi.stubGlobal("caches", {
+      open: async () => ({
+        keys: async () => [...entries.keys()].map((url) => ({ url })),
+        delete: async ({ url }: { url: string }) => entries.delete(url),
+        put: async (url: string, response: Response) => {
+          entries.set(url, response);
+        },
+      }),
+    });
+    return entries;
+  }
+
+  it("skips saved files, drops unwanted ones and counts failed downloads", async () => {
+    const entries = stubCaches([
+      "https://chakmalex.test/audio/ka.mp3",
+      "https://chakmalex.test/audio/old.mp3",
+    ]);
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith("/kha.mp3")) return new Response("audio");
+      if (url.endsWith("/ga.mp3")) {
+        return new Response("partial", { status: 206 });
+      }
+      return new Response("Not Found", { status: 404 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const updates: object[] = [];
+
+    const progress = await syncOfflineAudio(
+      ["/audio/ka.mp3", "/audio/kha.mp3", "/audio/gone.mp3", "/audio/ga.mp3"],
+      (update) => updates.push(update),
+    );
+
+    expect(progress).toEqual({ done: 4, total: 4, failed: 2 });
+    expect(updates.at(-1)).toEqual(progress);
+    expect(fetchMock.mock.calls.map(([url]) => url)).not.toContain(
+      "https://chakmalex.test/audio/ka.mp3",
+    );
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://chakmalex.test/audio/kha.mp3",
+      { mode: "cors" },
+    );
+    expect([...entries.keys()].sort()).toEqual([
+      "https://chakmalex.test/audio/ka.mp3",
+      "https://chakmalex.test/audio/kha.mp3",
+    ]);
+  });
+});
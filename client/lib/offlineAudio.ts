@@ -0,0 +1,92 @@
+/**
+ * Pronunciation audio saved for offline use
+ * Files go in a Cache Storage cache that the service worker answers audio
+ * requests from, and that it keeps when a new version of the app installs.
+ */
+
+import type { OfflineAudioScope, Word } from "@shared/types";
+
+// Must match AUDIO_CACHE in public/sw.js
+const AUDIO_CACHE = "chakmalex-audio";
+
+export interface OfflineAudioProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+/** False where Cache Storage is missing, e.g. over plain http */
+export const isOfflineAudioAvailable = () => typeof caches !== "undefined";
+
+/** The distinct audio URLs of the words a scope covers */
+export function audioUrlsFor(
+  words: Word[],
+  scope: OfflineAudioScope,
+  favorites: string[],
+): string[] {
+  if (scope === "off") return [];
+  const favoriteIds = new Set(favorites);
+  const urls = words
+    .filter((word) => scope === "all" || favoriteIds.has(word.id))
+    .map((word) => word.audio_pronunciation_url)
+    .filter(Boolean);
+  return Array.from(new Set(urls));
+}
+
+/** How many of `urls` are already saved */
+export async function countSavedAudio(urls: string[]): Promise<number> {
+  if (!isOfflineAudioAvailable() || urls.length === 0) return 0;
+  const cache = await caches.open(AUDIO_CACHE);
+  const saved = new Set((await cache.keys()).map((request) => request.url));
+  return urls.filter((url) => saved.has(new URL(url, location.href).href))
+    .length;
+}
+
+/**
+ * Makes the cache hold exactly `urls`: missing files are downloaded one at a
+ * time and files no longer wanted are dropped. A file that fails to download,
+ * including any response but a full 200, is counted and skipped; the next
+ * sync tries it again.
+ */
+export async function syncOfflineAudio(
+  urls: string[],
+  onProgress?: (progress: OfflineAudioProgress) => void,
+): Promise<OfflineAudioProgress> {
+  const progress = { done: 0, total: urls.length, failed: 0 };
+  if (!isOfflineAudioAvailable()) return progress;
+
+  const cache = await caches.open(AUDIO_CACHE);
+  const wanted = new Set(urls.map((url) => new URL(url, location.href).href));
+  const saved = new Set<string>();
+  for (const request of await cache.keys()) {
+    if (wanted.has(request.url)) saved.add(request.url);
+    else await cache.delete(request);
+  }
+
+  for (const url of wanted) {
+    if (!saved.has(url)) {
+      try {
+        // Audio hosts (raw.githubusercontent.com, our own origin) allow CORS,
+        // so the status can be checked; an opaque response could be an error
+        // page and is padded to megabytes of quota. The service worker cuts
+        // Range requests out of the whole file, so a 206 is no use here.
+        const response = await fetch(url, { mode: "cors" });
+        if (response.status !== 200) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        await cache.put(url, response);
+      } catch (error) {
+        console.warn("Could not save audio for offline use:", url, error);
+        progress.failed++;
+      }
+    }
+    progress.done++;
+    onProgress?.({ ...progress });
+  }
+  return progress;
+}
+
+/** Drops every saved file */
+export async function clearOfflineAudio(): Promise<void> {
+  if (isOfflineAudioAvailable()) await caches.delete(AUDIO_CACHE);
+}
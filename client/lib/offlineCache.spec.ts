@@ -0,0 +1,132 @@
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Character, Word, WordChanges } from "@shared/types";
+
+const api = vi.hoisted(() => ({
+  getWordChanges: vi.fn(),
+  getCharacters: vi.fn(),
+}));
+vi.mock("@/lib/apiClient", () => ({ apiClient: api }));
+
+const word = (id: string, english = "word"): Word => ({
+  id,
+  chakma_word_script: "\u{11107}",
+  romanized_pronunciation: "ka",
+  english_translation: english,
+  example_sentence: "",
+  etymology: "",
+});
+
+const character: Character = {
+  id: "ka",
+  character_script: "\u{11107}",
+  character_type: "alphabet",
+  romanized_name: "ka",
+};
+
+const changes = (overrides: Partial<WordChanges>): WordChanges => ({
+  since: null,
+  cursor: null,
+  created: [],
+  updated: [],
+  deleted: [],
+  ...overrides,
+});
+
+// A fresh database and module per test, as the module keeps its connection
+let offlineCache: typeof import("./offlineCache");
+
+beforeEach(async () => {
+  vi.stubGlobal("indexedDB", new IDBFactory());
+  vi.resetModules();
+  offlineCache = await import("./offlineCache");
+  api.getCharacters.mockResolvedValue([character]);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  api.getWordChanges.mockReset();
+});
+
+describe("offline dictionary cache", () => {
+  it("is empty until the first sync", async () => {
+    expect(await offlineCache.readCachedDictionary()).toBeNull();
+  });
+
+  it("downloads everything first, then only the changes since the cursor", async () => {
+    api.getWordChanges.mockResolvedValueOnce(
+      changes({ cursor: "c1", created: [word("1"), word("2"), word("3")] }),
+    );
+    await offlineCache.syncDictionary();
+    expect(api.getWordChanges).toHaveBeenLastCalledWith(undefined);
+
+    api.getWordChanges.mockResolvedValueOnce(
+      changes({
+        since: "c1",
+        cursor: "c2",
+        created: [word("4")],
+        updated: [word("1", "edited")],
+        deleted: [{ id: "2", deleted_at: "2026-01-02T00:00:00.000Z" }],
+      }),
+    );
+    const synced = await offlineCache.syncDictionary();
+    expect(api.getWordChanges).toHaveBeenLastCalledWith("c1");
+
+    const byId = (words: Word[]) =>
+      Object.fromEntries(words.map((w) => [w.id, w.english_translation]));
+    expect(byId(synced.words)).toEqual({ 1: "edited", 3: "word", 4: "word" });
+    expect(await offlineCache.readCachedDictionary()).toEqual({
+      words: synced.words,
+      characters: [character],
+    });
+  });
+
+  it("keeps the cursor across page loads", async () => {
+    api.getWordChanges.mockResolvedValue(
+      changes({ cursor: "c1", created: [word("1")] }),
+    );
+    await offlineCache.syncDictionary();
+
+    // A new page load: same database, module state gone
+    vi.resetModules();
+    offlineCache = await import("./offlineCache");
+    expect((await offlineCache.readCachedDictionary()).words).toEqual([
+      word("1"),
+    ]);
+    await offlineCache.syncDictionary();
+    expect(api.getWordChanges).toHaveBeenLastCalledWith("c1");
+  });
+
+  it("downloads everything again after a week", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    api.getWordChanges.mockResolvedValueOnce(
+      changes({ cursor: "c1", created: [word("1"), word("2")] }),
+    );
+    await offlineCache.syncDictionary();
+
+    // Word 2 was removed from the file by hand: no tombstone
+    vi.setSystemTime(new Date("2026-01-09T00:00:00Z"));
+    api.getWordChanges.mockResolvedValueOnce(
+      changes({ cursor: "c2", created: [word("1")] }),
+    );
+    const synced = await offlineCache.syncDictionary();
+    vi.useRealTimers();
+
+    expect(api.getWordChanges).toHaveBeenLastCalledWith(undefined);
+    expect(synced.words).toEqual([word("1")]);
+  });
+
+  it("leaves the cache as it was when the API is unreachable", async () => {
+    api.getWordChanges.mockResolvedValueOnce(
+      changes({ cursor: "c1", created: [word("1")] }),
+    );
+    await offlineCache.syncDictionary();
+    api.getWordChanges.mockRejectedValueOnce(new Error("offline"));
+
+    await expect(offlineCache.syncDictionary()).rejects.toThrow("offline");
+    expect((await offlineCache.readCachedDictionary()).words).toEqual([
+      word("1"),
+    ]);
+  });
+});
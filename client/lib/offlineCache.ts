@@ -0,0 +1,155 @@
+/**
+ * Offline copy of the dictionary in IndexedDB
+ * Words and characters are kept per record and refreshed in the background:
+ * after the first download, a sync only fetches the words created, updated
+ * or deleted since the last one, from GET /api/words/changes.
+ */
+
+import type { Character, Word } from "@shared/types";
+
+const DB_NAME = "chakmalex";
+const DB_VERSION = 1;
+const WORDS = "words";
+const CHARACTERS = "characters";
+const META = "meta";
+const SYNC_STATE_KEY = "sync";
+
+// The changes feed goes by timestamps and tombstones, which only the API
+// writes: a hand edit or git revert of the words file is invisible to it. An
+// occasional full download picks such changes up.
+const FULL_SYNC_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface SyncState {
+  /** From the last changes feed; the next sync starts here */
+  cursor?: string;
+  full_synced_at?: string;
+  synced_at?: string;
+}
+
+export interface DictionarySnapshot {
+  words: Word[];
+  characters: Character[];
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(WORDS, { keyPath: "id" });
+        db.createObjectStore(CHARACTERS, { keyPath: "id" });
+        db.createObjectStore(META);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open, e.g. in a private window
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+// Runs `work` in one transaction and resolves once it has committed
+async function transact<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => IDBRequest<T> | void,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = work(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const readAll = <T>(store: string) =>
+  transact<T[]>([store], "readonly", (tx) => tx.objectStore(store).getAll());
+
+function writeAll<T>(
+  store: string,
+  items: T[],
+  replace: boolean,
+  removedIds: string[] = [],
+) {
+  return transact<void>([store], "readwrite", (tx) => {
+    const objectStore = tx.objectStore(store);
+    if (replace) objectStore.clear();
+    removedIds.forEach((id) => objectStore.delete(id));
+    items.forEach((item) => objectStore.put(item));
+  });
+}
+
+const readSyncState = async (): Promise<SyncState> =>
+  (await transact<SyncState | undefined>([META], "readonly", (tx) =>
+    tx.objectStore(META).get(SYNC_STATE_KEY),
+  )) ?? {};
+
+const writeSyncState = (state: SyncState) =>
+  transact<void>([META], "readwrite", (tx) => {
+    tx.objectStore(META).put(state, SYNC_STATE_KEY);
+  });
+
+/** False where IndexedDB is missing, e.g. during server rendering */
+export const isOfflineCacheAvailable = () => typeof indexedDB !== "undefined";
+
+/** The cached dictionary, or null before the first successful sync */
+export async function readCachedDictionary(): Promise<DictionarySnapshot | null> {
+  if (!isOfflineCacheAvailable()) return null;
+  const state = await readSyncState();
+  if (!state.synced_at) return null;
+  const [words, characters] = await Promise.all([
+    readAll<Word>(WORDS),
+    readAll<Character>(CHARACTERS),
+  ]);
+  return { words, characters };
+}
+
+/**
+ * Brings the cache up to date with the API and returns its new contents.
+ * Throws when the API is unreachable; the cache is left as it was.
+ */
+export async function syncDictionary(): Promise<DictionarySnapshot> {
+  const { apiClient } = await import("@/lib/apiClient");
+  // Null when IndexedDB cannot be used (e.g. some private windows): the live
+  // data is then returned without being cached
+  const state = await readSyncState().catch((e) => {
+    console.warn("Offline cache unavailable:", e);
+    return null;
+  });
+  const now = new Date();
+  const full =
+    !state?.cursor ||
+    !state.full_synced_at ||
+    now.getTime() - Date.parse(state.full_synced_at) > FULL_SYNC_INTERVAL_MS;
+
+  const [changes, characters] = await Promise.all([
+    apiClient.getWordChanges(full ? undefined : state.cursor),
+    apiClient.getCharacters(),
+  ]);
+  const words = [...changes.created, ...changes.updated];
+  if (!state) return { words, characters };
+  await writeAll(
+    WORDS,
+    words,
+    full,
+    changes.deleted.map((tombstone) => tombstone.id),
+  );
+  await writeAll(CHARACTERS, characters, true);
+  await writeSyncState({
+    cursor: changes.cursor ?? undefined,
+    full_synced_at: full ? now.toISOString() : state.full_synced_at,
+    synced_at: now.toISOString(),
+  });
+  return {
+    words: await readAll<Word>(WORDS),
+    characters,
+  };
+}
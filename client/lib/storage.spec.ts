@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Word } from "@shared/types";
+import { CollectionsManager, FavoritesManager } from "./storage";
+
+const word = (id: string, english = "word"): Word => ({
+  id,
+  chakma_word_script: "\u{11107}",
+  romanized_pronunciation: "ka",
+  english_translation: english,
+  example_sentence: "",
+  etymology: "",
+});
+
+// localStorage as the browser keeps it: strings by key
+beforeEach(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, String(value)),
+    removeItem: (key: string) => items.delete(key),
+    clear: () => items.clear(),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("FavoritesManager", () => {
+  it("snapshots a word when it is toggled on", () => {
+    expect(FavoritesManager.toggle(word("1", "today"))).toBe(true);
+    expect(FavoritesManager.get()).toEqual(["1"]);
+    expect(FavoritesManager.getSnapshots()).toEqual({
+      1: { chakma_word_script: "\u{11107}", english_translation: "today" },
+    });
+
+    expect(FavoritesManager.toggle(word("1"))).toBe(false);
+    expect(FavoritesManager.isFavorite("1")).toBe(false);
+  });
+
+  it("keeps the snapshot of a favorite deleted from the dictionary", () => {
+    FavoritesManager.add(word("1", "today"));
+    FavoritesManager.add(word("2", "tomorrow"));
+
+    FavoritesManager.rememberWords([word("2", "tomorrow (edited)")]);
+    expect(FavoritesManager.getSnapshots()).toEqual({
+      1: { chakma_word_script: "\u{11107}", english_translation: "today" },
+      2: {
+        chakma_word_script: "\u{11107}",
+        english_translation: "tomorrow (edited)",
+      },
+    });
+  });
+
+  it("drops the snapshot once the removed favorite is dismissed", () => {
+    FavoritesManager.add(word("1", "today"));
+    FavoritesManager.rememberWords([]);
+
+    FavoritesManager.remove("1");
+    FavoritesManager.rememberWords([]);
+    expect(FavoritesManager.get()).toEqual([]);
+    expect(FavoritesManager.getSnapshots()).toEqual({});
+  });
+});
+
+describe("CollectionsManager", () => {
+  const wordIds = (listId: string) =>
+    CollectionsManager.get(listId).entries.map((e) => e.word_id);
+
+  it("creates, renames and deletes lists, kept in localStorage", () => {
+    const list = CollectionsManager.create("  Exam words ", " ");
+    expect(list).toMatchObject({ name: "Exam words", entries: [] });
+    expect(list.description).toBeUndefined();
+    const other = CollectionsManager.create("Food");
+
+    CollectionsManager.rename(list.id, "Exam", "For Friday");
+    expect(CollectionsManager.get(list.id)).toMatchObject({
+      name: "Exam",
+      description: "For Friday",
+    });
+    expect(
+      JSON.parse(localStorage.getItem("chakmalex_collections")),
+    ).toHaveLength(2);
+
+    CollectionsManager.delete(list.id);
+    expect(CollectionsManager.getAll().map((c) => c.id)).toEqual([other.id]);
+  });
+
+  it("adds each word once and notes it", () => {
+    const list = CollectionsManager.create("Exam");
+    CollectionsManager.addWord(list.id, "1");
+    CollectionsManager.addWord(list.id, "2");
+    CollectionsManager.setNote(list.id, "1", " irregular ");
+    CollectionsManager.addWord(list.id, "1");
+
+    expect(wordIds(list.id)).toEqual(["1", "2"]);
+    expect(CollectionsManager.get(list.id).entries[0].note).toBe("irregular");
+    expect(CollectionsManager.listsContaining("1")).toEqual([list.id]);
+
+    CollectionsManager.setNote(list.id, "1", "");
+    CollectionsManager.removeWord(list.id, "2");
+    expect(CollectionsManager.get(list.id).entries).toEqual([
+      { word_id: "1", added_at: expect.any(String) },
+    ]);
+  });
+
+  it("moves words, clamping moves past either end", () => {
+    const list = CollectionsManager.create("Exam");
+    ["1", "2", "3"].forEach((id) => CollectionsManager.addWord(list.id, id));
+
+    CollectionsManager.moveWord(list.id, "3", 0);
+    expect(wordIds(list.id)).toEqual(["3", "1", "2"]);
+    CollectionsManager.moveWord(list.id, "3", 10);
+    expect(wordIds(list.id)).toEqual(["1", "2", "3"]);
+    CollectionsManager.moveWord(list.id, "2", -1);
+    expect(wordIds(list.id)).toEqual(["2", "1", "3"]);
+    CollectionsManager.moveWord(list.id, "missing", 0);
+    expect(wordIds(list.id)).toEqual(["2", "1", "3"]);
+  });
+});
@@ -10,6 +10,9 @@ import {
   FontSize,
   SearchHistoryItem,
   CustomColors,
+  AuthSession,
+  Word,
+  WordCollection,
 } from "@shared/types";
 
 // Storage keys
@@ -17,8 +20,11 @@ const STORAGE_KEYS = {
   USER_PREFERENCES: "chakmalex_user_preferences",
   SEARCH_HISTORY: "chakmalex_search_history",
   FAVORITES: "chakmalex_favorites",
+  FAVORITE_SNAPSHOTS: "chakmalex_favorite_snapshots",
+  COLLECTIONS: "chakmalex_collections",
   DEVELOPER_CONSOLE: "chakmalex_dev_console",
   QUIZ_PROGRESS: "chakmalex_quiz_progress",
+  AUTH_SESSION: "chakmalex_auth_session",
 } as const;
 
 // User Preferences Management
@@ -197,6 +203,13 @@ export class SearchHistoryManager {
   }
 }
 
+// A favorite as last seen in the dictionary, so it can still be named after
+// the word is deleted
+export type FavoriteSnapshot = Pick<
+  Word,
+  "chakma_word_script" | "english_translation"
+>;
+
 // Favorites Management
 export class FavoritesManager {
   static get(): string[] {
@@ -209,13 +222,16 @@ export class FavoritesManager {
     }
   }
 
-  static add(wordId: string): void {
+  // The word is snapshotted as it is favorited, so it can be named later
+  // even if it is deleted before the Favorites page is next opened
+  static add(word: Word): void {
     try {
       const favorites = this.get();
-      if (!favorites.includes(wordId)) {
-        const updated = [...favorites, wordId];
+      if (!favorites.includes(word.id)) {
+        const updated = [...favorites, word.id];
         localStorage.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify(updated));
       }
+      this.rememberWords([word]);
     } catch (error) {
       console.error("Error adding to favorites:", error);
     }
@@ -231,15 +247,15 @@ export class FavoritesManager {
     }
   }
 
-  static toggle(wordId: string): boolean {
+  static toggle(word: Word): boolean {
     const favorites = this.get();
-    const isFavorite = favorites.includes(wordId);
+    const isFavorite = favorites.includes(word.id);
 
     if (isFavorite) {
-      this.remove(wordId);
+      this.remove(word.id);
       return false;
     } else {
-      this.add(wordId);
+      this.add(word);
       return true;
     }
   }
@@ -251,10 +267,174 @@ export class FavoritesManager {
   static clear(): void {
     try {
       localStorage.removeItem(STORAGE_KEYS.FAVORITES);
+      localStorage.removeItem(STORAGE_KEYS.FAVORITE_SNAPSHOTS);
     } catch (error) {
       console.error("Error clearing favorites:", error);
     }
   }
+
+  static getSnapshots(): Record<string, FavoriteSnapshot> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.FAVORITE_SNAPSHOTS);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error("Error loading favorite snapshots:", error);
+      return {};
+    }
+  }
+
+  /**
+   * Records how the favorited words among `words` look now. Snapshots of
+   * words no longer favorited are dropped; those of favorites missing from
+   * `words` are kept.
+   */
+  static rememberWords(words: Word[]): void {
+    try {
+      const favorites = this.get();
+      const previous = this.getSnapshots();
+      const byId = new Map(words.map((word) => [word.id, word]));
+      const snapshots: Record<string, FavoriteSnapshot> = {};
+      favorites.forEach((id) => {
+        const word = byId.get(id);
+        const snapshot = word
+          ? {
+              chakma_word_script: word.chakma_word_script,
+              english_translation: word.english_translation,
+            }
+          : previous[id];
+        if (snapshot) snapshots[id] = snapshot;
+      });
+      localStorage.setItem(
+        STORAGE_KEYS.FAVORITE_SNAPSHOTS,
+        JSON.stringify(snapshots),
+      );
+    } catch (error) {
+      console.error("Error saving favorite snapshots:", error);
+    }
+  }
+}
+
+// Named Word Lists Management
+export class CollectionsManager {
+  static getAll(): WordCollection[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.COLLECTIONS);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("Error loading word lists:", error);
+      return [];
+    }
+  }
+
+  static get(collectionId: string): WordCollection | undefined {
+    return this.getAll().find((c) => c.id === collectionId);
+  }
+
+  /** Ids of the lists that contain the word */
+  static listsContaining(wordId: string): string[] {
+    return this.getAll()
+      .filter((c) => c.entries.some((e) => e.word_id === wordId))
+      .map((c) => c.id);
+  }
+
+  static create(name: string, description?: string): WordCollection {
+    const now = new Date().toISOString();
+    const collection: WordCollection = {
+      id: `list-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      name: name.trim(),
+      description: description?.trim() || undefined,
+      entries: [],
+      created_at: now,
+      updated_at: now,
+    };
+    this.saveAll([...this.getAll(), collection]);
+    return collection;
+  }
+
+  static rename(
+    collectionId: string,
+    name: string,
+    description?: string,
+  ): void {
+    this.modify(collectionId, (c) => ({
+      ...c,
+      name: name.trim(),
+      description: description?.trim() || undefined,
+    }));
+  }
+
+  static delete(collectionId: string): void {
+    this.saveAll(this.getAll().filter((c) => c.id !== collectionId));
+  }
+
+  /** Appends the word to the list; a word already in it stays where it is */
+  static addWord(collectionId: string, wordId: string): void {
+    this.modify(collectionId, (c) =>
+      c.entries.some((e) => e.word_id === wordId)
+        ? c
+        : {
+            ...c,
+            entries: [
+              ...c.entries,
+              { word_id: wordId, added_at: new Date().toISOString() },
+            ],
+          },
+    );
+  }
+
+  static removeWord(collectionId: string, wordId: string): void {
+    this.modify(collectionId, (c) => ({
+      ...c,
+      entries: c.entries.filter((e) => e.word_id !== wordId),
+    }));
+  }
+
+  static setNote(collectionId: string, wordId: string, note: string): void {
+    this.modify(collectionId, (c) => ({
+      ...c,
+      entries: c.entries.map((e) =>
+        e.word_id === wordId ? { ...e, note: note.trim() || undefined } : e,
+      ),
+    }));
+  }
+
+  /** Moves the word to `index` in the list, clamped to its ends */
+  static moveWord(collectionId: string, wordId: string, index: number): void {
+    this.modify(collectionId, (c) => {
+      const from = c.entries.findIndex((e) => e.word_id === wordId);
+      if (from === -1) return c;
+      const entries = c.entries.slice();
+      const [entry] = entries.splice(from, 1);
+      entries.splice(Math.max(0, Math.min(entries.length, index)), 0, entry);
+      return { ...c, entries };
+    });
+  }
+
+  private static modify(
+    collectionId: string,
+    change: (collection: WordCollection) => WordCollection,
+  ): void {
+    this.saveAll(
+      this.getAll().map((c) => {
+        if (c.id !== collectionId) return c;
+        const updated = change(c);
+        return updated === c
+          ? c
+          : { ...updated, updated_at: new Date().toISOString() };
+      }),
+    );
+  }
+
+  private static saveAll(collections: WordCollection[]): void {
+    try {
+      localStorage.setItem(
+        STORAGE_KEYS.COLLECTIONS,
+        JSON.stringify(collections),
+      );
+    } catch (error) {
+      console.error("Error saving word lists:", error);
+    }
+  }
 }
 
 // Developer Console Access Management
@@ -319,13 +499,48 @@ export class DeveloperConsoleManager {
       const stored = localStorage.getItem(STORAGE_KEYS.DEVELOPER_CONSOLE);
       if (stored) {
         const data = JSON.parse(stored);
-        return data.isAuthenticated || false;
+        return (data.isAuthenticated || false) && this.getSession() !== null;
       }
     } catch (error) {
       console.error("Error checking authentication status:", error);
     }
     return false;
   }
+
+  // Server-issued editor session; expired sessions are dropped on read
+  static getSession(): AuthSession | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.AUTH_SESSION);
+      if (!stored) return null;
+      const session = JSON.parse(stored) as AuthSession;
+      if (new Date(session.expires_at).getTime() <= Date.now()) {
+        localStorage.removeItem(STORAGE_KEYS.AUTH_SESSION);
+        return null;
+      }
+      return session;
+    } catch (error) {
+      console.error("Error loading editor session:", error);
+      return null;
+    }
+  }
+
+  static setSession(session: AuthSession): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.AUTH_SESSION, JSON.stringify(session));
+      this.setAuthenticated(true);
+    } catch (error) {
+      console.error("Error saving editor session:", error);
+    }
+  }
+
+  static clearSession(): void {
+    try {
+      localStorage.removeItem(STORAGE_KEYS.AUTH_SESSION);
+      this.setAuthenticated(false);
+    } catch (error) {
+      console.error("Error clearing editor session:", error);
+    }
+  }
 }
 
 // Audio Volume Management
@@ -375,6 +590,7 @@ export const exportAllData = (): string => {
     preferences: PreferencesManager.get(),
     searchHistory: SearchHistoryManager.get(),
     favorites: FavoritesManager.get(),
+    collections: CollectionsManager.getAll(),
     exportedAt: new Date().toISOString(),
   };
 
@@ -403,6 +619,13 @@ export const importAllData = (data: string): boolean => {
       );
     }
 
+    if (parsed.collections) {
+      localStorage.setItem(
+        STORAGE_KEYS.COLLECTIONS,
+        JSON.stringify(parsed.collections),
+      );
+    }
+
     return true;
   } catch (error) {
     console.error("Error importing data:", error);
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { queueEdit, type QueuedEdit } from "./wordBatch";
+
+const word = {
+  chakma_word_script: "\u{11107}",
+  romanized_pronunciation: "ka",
+  english_translation: "a",
+  example_sentence: "",
+  etymology: "",
+};
+
+describe("queueEdit", () => {
+  it("folds updates into a queued create and drops it on delete", () => {
+    let queue: QueuedEdit[] = queueEdit([], {
+      id: "pending-1",
+      label: "ka",
+      operation: { op: "create", word },
+    });
+    queue = queueEdit(queue, {
+      id: "pending-1",
+      label: "ka",
+      operation: {
+        op: "update",
+        id: "pending-1",
+        changes: { id: "pending-1", english_translation: "b" },
+      },
+    });
+    expect(queue).toEqual([
+      {
+        id: "pending-1",
+        label: "ka",
+        operation: {
+          op: "create",
+          word: { ...word, english_translation: "b" },
+        },
+      },
+    ]);
+
+    queue = queueEdit(queue, {
+      id: "pending-1",
+      label: "ka",
+      operation: { op: "delete", id: "pending-1" },
+    });
+    expect(queue).toEqual([]);
+  });
+
+  it("keeps the first revision across merged updates and a delete", () => {
+    let queue = queueEdit([], {
+      id: "1",
+      label: "ka",
+      operation: {
+        op: "update",
+        id: "1",
+        changes: { etymology: "x" },
+        revision: "r1",
+      },
+    });
+    queue = queueEdit(queue, {
+      id: "1",
+      label: "ka",
+      operation: {
+        op: "update",
+        id: "1",
+        changes: { english_translation: "y" },
+      },
+    });
+    expect(queue[0].operation).toEqual({
+      op: "update",
+      id: "1",
+      changes: { etymology: "x", english_translation: "y" },
+      revision: "r1",
+    });
+
+    queue = queueEdit(queue, {
+      id: "1",
+      label: "ka",
+      operation: { op: "delete", id: "1" },
+    });
+    expect(queue[0].operation).toEqual({
+      op: "delete",
+      id: "1",
+      revision: "r1",
+    });
+  });
+});
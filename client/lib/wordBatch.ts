@@ -0,0 +1,56 @@
+import type { WordBatchOperation } from "@shared/types";
+
+/**
+ * An edit waiting to be published with `apiClient.batchWords`. `id` is the
+ * word's id, or a placeholder from `pendingWordId` for words created in the
+ * queue; `label` names the word in the queue list.
+ */
+export interface QueuedEdit {
+  id: string;
+  label: string;
+  operation: WordBatchOperation;
+}
+
+const PENDING_PREFIX = "pending-";
+
+export const pendingWordId = () =>
+  `${PENDING_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const isPendingWordId = (id: string) => id.startsWith(PENDING_PREFIX);
+
+/**
+ * Adds an edit to the queue, folded into any earlier edit of the same word so
+ * each word is sent once. Changes to a queued create or update are merged; a
+ * delete replaces them, or drops the word entirely if it was created in the
+ * queue. The first revision queued for a word is the one checked on publish.
+ */
+export function queueEdit(queue: QueuedEdit[], edit: QueuedEdit): QueuedEdit[] {
+  const index = queue.findIndex((e) => e.id === edit.id);
+  if (index === -1) return [...queue, edit];
+  const earlier = queue[index].operation;
+  const next = edit.operation;
+
+  let merged: WordBatchOperation | null = next;
+  if (earlier.op === "create") {
+    if (next.op === "delete") {
+      merged = null;
+    } else if (next.op === "update") {
+      const { id, ...changes } = next.changes;
+      merged = { op: "create", word: { ...earlier.word, ...changes } };
+    }
+  } else if (earlier.op === "update") {
+    if (next.op === "update") {
+      merged = {
+        ...earlier,
+        changes: { ...earlier.changes, ...next.changes },
+      };
+    } else if (next.op === "delete") {
+      merged = { ...next, revision: earlier.revision ?? next.revision };
+    }
+  }
+
+  const result = queue.slice();
+  if (merged) result[index] = { ...edit, operation: merged };
+  else result.splice(index, 1);
+  return result;
+}
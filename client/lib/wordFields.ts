@@ -0,0 +1,49 @@
+import { romanizeChakma } from "@shared/romanization";
+import type { Word } from "@shared/types";
+
+export type WordField = keyof Omit<Word, "id" | "created_at" | "updated_at">;
+
+// Editable word fields in display order, for diffs and merge views
+export const WORD_FIELDS: { key: WordField; label: string }[] = [
+  { key: "chakma_word_script", label: "Chakma Script" },
+  { key: "romanized_pronunciation", label: "Romanized" },
+  { key: "english_translation", label: "English" },
+  { key: "example_sentence", label: "Example" },
+  { key: "etymology", label: "Etymology" },
+  { key: "synonyms", label: "Synonyms" },
+  { key: "antonyms", label: "Antonyms" },
+  { key: "audio_pronunciation_url", label: "Audio" },
+  { key: "explanation_media", label: "Media" },
+  { key: "is_verified", label: "Verified" },
+];
+
+export const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Human-readable value of a word field; "—" when empty */
+export function formatWordField(
+  word: Partial<Word> | null | undefined,
+  key: WordField,
+): string {
+  const value = word?.[key];
+  if (value === undefined || value === null || value === "") return "—";
+  if (Array.isArray(value)) return value.map((t) => t.term).join(", ") || "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") return value.value;
+  return String(value);
+}
+
+/**
+ * Romanization to show once the script changes from `prevScript` to
+ * `script`: regenerated while the field is empty or still generated, kept
+ * once the editor has typed their own.
+ */
+export function prefillRomanized(
+  prevScript: string,
+  romanized: string,
+  script: string,
+): string {
+  return !romanized.trim() || romanized === romanizeChakma(prevScript)
+    ? romanizeChakma(script)
+    : romanized;
+}
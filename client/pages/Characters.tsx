@@ -12,14 +12,24 @@ import { Volume2, BookOpen, Type } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 import { Character, CharacterType } from "@shared/types";
-import { sampleCharacters, charactersByType } from "@shared/sampleData";
 import { AudioManager } from "@/lib/storage";
+import { useCharacters } from "@/hooks/use-characters";
 
 export default function Characters() {
   const [selectedCharacter, setSelectedCharacter] = useState<Character | null>(
     null,
   );
   const [activeTab, setActiveTab] = useState<CharacterType>("alphabet");
+  const characters = useCharacters();
+  const charactersByType = React.useMemo(() => {
+    const groups: Partial<Record<CharacterType, Character[]>> = {};
+    for (const character of characters) {
+      const type = character.character_type;
+      if (!groups[type]) groups[type] = [];
+      groups[type].push(character);
+    }
+    return groups;
+  }, [characters]);
 
   const handleCharacterSelect = (character: Character) => {
     setSelectedCharacter(character);
@@ -39,6 +49,7 @@ export default function Characters() {
     { id: "alphabet" as CharacterType, label: "Alphabets", icon: Type },
     { id: "vowel" as CharacterType, label: "Vowels", icon: BookOpen },
     { id: "diacritic" as CharacterType, label: "Diacritics", icon: Type },
+    { id: "conjunct" as CharacterType, label: "Conjuncts", icon: Type },
     { id: "ordinal" as CharacterType, label: "Numbers", icon: BookOpen },
     { id: "symbol" as CharacterType, label: "Symbols", icon: Type },
   ];
@@ -64,7 +75,7 @@ export default function Characters() {
             value={activeTab}
             onValueChange={(value) => setActiveTab(value as CharacterType)}
           >
-            <TabsList className="grid w-full grid-cols-5">
+            <TabsList className="grid w-full grid-cols-6">
               {characterTypes.map((type) => {
                 const Icon = type.icon;
                 return (
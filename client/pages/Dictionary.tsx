@@ -6,15 +6,22 @@
 import React, { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Separator } from "@/components/ui/separator";
+import { useSearchParams } from "react-router-dom";
+import {
+  ChakmaKeyboardButton,
+  TransliterationToggle,
+} from "@/components/ChakmaKeyboard";
+import { useTransliteration } from "@/hooks/use-transliteration";
+import { useDictionary } from "@/hooks/use-dictionary";
+import WordDetails from "@/components/WordDetails";
+import AddToListMenu from "@/components/AddToListMenu";
 import {
   Search,
   Volume2,
   Heart,
   HeartOff,
-  ExternalLink,
   History,
   Sparkles,
   BookOpen,
@@ -23,12 +30,15 @@ import {
 import { cn } from "@/lib/utils";
 
 // Data and utilities
-import { Word, SearchHistoryItem } from "@shared/types";
 import {
-  sampleWords,
-  searchWords,
-  sampleSearchHistory,
-} from "@shared/sampleData";
+  Word,
+  SearchField,
+  SearchHistoryItem,
+  SearchMatchKind,
+  SearchResult,
+} from "@shared/types";
+import { sampleWords, sampleSearchHistory } from "@shared/sampleData";
+import { searchDictionary, suggestQuery } from "@shared/search";
 import {
   SearchHistoryManager,
   FavoritesManager,
@@ -36,8 +46,39 @@ import {
   PreferencesManager,
 } from "@/lib/storage";
 
+const MATCH_FIELD_LABELS: Record<SearchField, string> = {
+  chakma_word_script: "Chakma script",
+  romanized_pronunciation: "Pronunciation",
+  english_translation: "English",
+  synonyms: "Synonym",
+  antonyms: "Antonym",
+};
+
+const MATCH_KIND_LABELS: Record<SearchMatchKind, string> = {
+  exact: "exact",
+  prefix: "starts with",
+  word: "whole word",
+  substring: "contains",
+  fuzzy: "similar spelling",
+};
+
+// `web+chakmalex:` links arrive as the whole URL, e.g. "web+chakmalex:ado"
+function queryFromParam(value: string | null): string {
+  return (value ?? "").replace(/^web\+chakmalex:(\/\/)?/i, "").trim();
+}
+
 export default function Dictionary() {
-  const [searchQuery, setSearchQuery] = useState("");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlQuery = queryFromParam(searchParams.get("query"));
+  // Query the results on screen belong to, for handlers outside render
+  const activeQuery = useRef("");
+  // Bumped by every search, so a response that arrives after a newer search
+  // started is dropped instead of replacing its results
+  const searchRequest = useRef(0);
+  // Set by a search the user submitted, until the URL change reaches the
+  // effect below; searches from links or back/forward are not recorded
+  const submittedQuery = useRef<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState(urlQuery);
   const [searchResults, setSearchResults] = useState<Word[]>([]);
   const [selectedWord, setSelectedWord] = useState<Word | null>(null);
   const [searchHistory, setSearchHistory] = useState<SearchHistoryItem[]>([]);
@@ -45,85 +86,141 @@ export default function Dictionary() {
   const [isLoading, setIsLoading] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
-  const [allWords, setAllWords] = useState<Word[]>(sampleWords);
+  const transliteration = useTransliteration(searchInputRef, setSearchQuery);
+  // Offline cache first, synced with the API in the background
+  const { words: allWords } = useDictionary();
+  // Paging state of the last server-side search; null for local results
+  const [searchPage, setSearchPage] = useState<{
+    query: string;
+    page: number;
+    total: number;
+    hasNext: boolean;
+  } | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Why each search result matched, by word id
+  const [matches, setMatches] = useState<Record<string, SearchResult>>({});
+  const [suggestion, setSuggestion] = useState<string | null>(null);
 
   // Initialize data
   useEffect(() => {
     setSearchHistory(SearchHistoryManager.get());
     setFavorites(FavoritesManager.get());
-
-    // Show some featured words initially
-    setSearchResults(sampleWords.slice(0, 3));
-
-    // Fetch live words from API with fallback
-    (async () => {
-      try {
-        const { apiClient } = await import("@/lib/apiClient");
-        const words = await apiClient.getWords();
-        setAllWords(words as any);
-        setSearchResults(words.slice(0, 3) as any);
-        console.log("Successfully loaded words from API");
-      } catch (e) {
-        console.warn(
-          "API unavailable, using sample data. This is normal in development without GitHub integration:",
-          e,
-        );
-        // Keep using sampleWords as fallback
-        setAllWords(sampleWords);
-        setSearchResults(sampleWords.slice(0, 3));
-      }
-    })();
-
-    // Refresh on visibility/focus to avoid stale data
-    const onFocus = async () => {
-      try {
-        const { apiClient } = await import("@/lib/apiClient");
-        const words = await apiClient.getWords();
-        setAllWords(words as any);
-        if (!searchQuery) setSearchResults(words.slice(0, 3) as any);
-      } catch (e) {
-        console.warn("Failed to refresh words from API:", e);
-        // Keep existing data, don't update
-      }
-    };
-    window.addEventListener("focus", onFocus);
-    return () => window.removeEventListener("focus", onFocus);
   }, []);
 
-  // Handle search
-  const handleSearch = async (query: string) => {
+  // Newly synced words replace the suggestions shown before any search
+  useEffect(() => {
+    if (!activeQuery.current) setSearchResults(allWords.slice(0, 3));
+  }, [allWords]);
+
+  // Searches live in the URL (/?query=…) so they can be shared, bookmarked
+  // and opened from web+chakmalex: links; this runs them as the URL changes
+  useEffect(() => {
+    const submitted = submittedQuery.current === urlQuery;
+    submittedQuery.current = null;
+    setSearchQuery(urlQuery);
+    runSearch(urlQuery, submitted);
+  }, [urlQuery]);
+
+  const handleSearch = (query: string) => {
+    const trimmed = query.trim();
+    if (trimmed === urlQuery) {
+      runSearch(trimmed, true);
+    } else {
+      submittedQuery.current = trimmed;
+      setSearchParams(trimmed ? { query: trimmed } : {});
+    }
+  };
+
+  // Ranked and paginated by the API, local when offline. `record` adds the
+  // search to the history.
+  const runSearch = async (query: string, record: boolean) => {
+    const request = ++searchRequest.current;
+    activeQuery.current = query.trim();
     if (!query.trim()) {
       setSearchResults((allWords.length ? allWords : sampleWords).slice(0, 3));
+      setSearchPage(null);
+      setMatches({});
+      setSuggestion(null);
       setSelectedWord(null);
+      // An earlier search may still be pending; its response is dropped
+      setIsLoading(false);
       return;
     }
 
     setIsLoading(true);
     setShowHistory(false);
 
-    // Simulate API delay
-    await new Promise((resolve) => setTimeout(resolve, 300));
-
-    const dataset = allWords.length ? allWords : sampleWords;
-    const results = searchWords(query, dataset as any);
-    setSearchResults(results);
+    let resultCount: number;
+    try {
+      const { apiClient } = await import("@/lib/apiClient");
+      const page = await apiClient.searchWords({ query });
+      if (request !== searchRequest.current) return;
+      setSearchResults(page.items.map((r) => r.word));
+      setMatches(indexMatches(page.items));
+      setSuggestion(page.suggestion ?? null);
+      setSearchPage({
+        query,
+        page: page.page,
+        total: page.total_count,
+        hasNext: page.has_next,
+      });
+      resultCount = page.total_count;
+    } catch (e) {
+      if (request !== searchRequest.current) return;
+      console.warn("Search API unavailable, searching loaded words:", e);
+      const dataset = allWords.length ? allWords : sampleWords;
+      const results = searchDictionary(dataset, { query });
+      setSearchResults(results.map((r) => r.word));
+      setMatches(indexMatches(results));
+      setSuggestion(suggestQuery(dataset, query, results));
+      setSearchPage(null);
+      resultCount = results.length;
+    }
     setSelectedWord(null);
 
-    // Add to search history
-    SearchHistoryManager.add(query, results.length);
-    setSearchHistory(SearchHistoryManager.get());
+    if (record) {
+      SearchHistoryManager.add(query, resultCount);
+      setSearchHistory(SearchHistoryManager.get());
+    }
 
     setIsLoading(false);
   };
 
+  const handleLoadMore = async () => {
+    if (!searchPage?.hasNext) return;
+    const request = searchRequest.current;
+    setIsLoadingMore(true);
+    try {
+      const { apiClient } = await import("@/lib/apiClient");
+      const page = await apiClient.searchWords(
+        { query: searchPage.query },
+        searchPage.page + 1,
+      );
+      // A new search started meanwhile: this page belongs to the old one
+      if (request !== searchRequest.current) return;
+      setSearchResults((prev) => [...prev, ...page.items.map((r) => r.word)]);
+      setMatches((prev) => ({ ...prev, ...indexMatches(page.items) }));
+      setSearchPage({
+        ...searchPage,
+        page: page.page,
+        total: page.total_count,
+        hasNext: page.has_next,
+      });
+    } catch (e) {
+      console.error("Failed to load more results:", e);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
   // Handle word selection
   const handleWordSelect = (word: Word) => {
     setSelectedWord(word);
   };
 
   // Handle favorite toggle
-  const handleFavoriteToggle = (wordId: string) => {
-    const isFavorite = FavoritesManager.toggle(wordId);
+  const handleFavoriteToggle = (word: Word) => {
+    const isFavorite = FavoritesManager.toggle(word);
     setFavorites(FavoritesManager.get());
     return isFavorite;
   };
@@ -194,9 +291,13 @@ export default function Dictionary() {
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
                   ref={searchInputRef}
-                  placeholder="Search in English, Chakma script, or romanized text..."
+                  placeholder={
+                    transliteration.enabled
+                      ? "Type romanized text to write Chakma, e.g. ado → 𑄃𑄘𑄮"
+                      : "Search in English, Chakma script, or romanized text..."
+                  }
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => transliteration.handleChange(e.target.value)}
                   onKeyDown={(e) => {
                     if (e.key === "Enter") {
                       handleSearch(searchQuery);
@@ -219,6 +320,17 @@ export default function Dictionary() {
                   </Button>
                 )}
               </div>
+              <TransliterationToggle
+                enabled={transliteration.enabled}
+                onToggle={transliteration.setEnabled}
+                className="h-10 w-10 md:h-12 md:w-12 shrink-0"
+              />
+              <ChakmaKeyboardButton
+                inputRef={searchInputRef}
+                value={searchQuery}
+                onChange={setSearchQuery}
+                className="h-10 w-10 md:h-12 md:w-12 shrink-0"
+              />
               <Button
                 onClick={() => handleSearch(searchQuery)}
                 disabled={isLoading}
@@ -273,12 +385,27 @@ export default function Dictionary() {
             </h2>
             {searchResults.length > 0 && (
               <Badge variant="outline">
-                {searchResults.length}{" "}
-                {searchResults.length === 1 ? "word" : "words"}
+                {searchPage?.total ?? searchResults.length}{" "}
+                {(searchPage?.total ?? searchResults.length) === 1
+                  ? "word"
+                  : "words"}
               </Badge>
             )}
           </div>
 
+          {suggestion && (
+            <p className="text-sm text-muted-foreground">
+              Did you mean{" "}
+              <button
+                className="font-medium text-primary underline-offset-4 hover:underline"
+                onClick={() => handleHistorySearch(suggestion)}
+              >
+                {suggestion}
+              </button>
+              ?
+            </p>
+          )}
+
           {searchResults.length === 0 ? (
             <Card className="text-center py-12">
               <CardContent>
@@ -295,15 +422,26 @@ export default function Dictionary() {
                 <WordCard
                   key={word.id}
                   word={word}
+                  match={matches[word.id]}
                   isSelected={selectedWord?.id === word.id}
                   isFavorite={favorites.includes(word.id)}
                   onSelect={() => handleWordSelect(word)}
-                  onFavoriteToggle={() => handleFavoriteToggle(word.id)}
+                  onFavoriteToggle={() => handleFavoriteToggle(word)}
                   onPlayAudio={() =>
                     handlePlayAudio(word.audio_pronunciation_url)
                   }
                 />
               ))}
+              {searchPage?.hasNext && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleLoadMore}
+                  disabled={isLoadingMore}
+                >
+                  {isLoadingMore ? "Loading..." : "Load more results"}
+                </Button>
+              )}
             </div>
           )}
         </div>
@@ -313,8 +451,9 @@ export default function Dictionary() {
           {selectedWord ? (
             <WordDetails
               word={selectedWord}
+              showPageLink
               isFavorite={favorites.includes(selectedWord.id)}
-              onFavoriteToggle={() => handleFavoriteToggle(selectedWord.id)}
+              onFavoriteToggle={() => handleFavoriteToggle(selectedWord)}
               onPlayAudio={() =>
                 handlePlayAudio(selectedWord.audio_pronunciation_url)
               }
@@ -337,9 +476,14 @@ export default function Dictionary() {
   );
 }
 
+const indexMatches = (results: SearchResult[]) =>
+  Object.fromEntries(results.map((r) => [r.word.id, r]));
+
 // Word Card Component
 interface WordCardProps {
   word: Word;
+  /** Why the word matched the current search, if it came from one */
+  match?: SearchResult;
   isSelected: boolean;
   isFavorite: boolean;
   onSelect: () => void;
@@ -349,6 +493,7 @@ interface WordCardProps {
 
 function WordCard({
   word,
+  match,
   isSelected,
   isFavorite,
   onSelect,
@@ -387,6 +532,19 @@ function WordCard({
             <p className="text-base md:text-lg font-medium english-translation">
               {word.english_translation}
             </p>
+            {match && (
+              <p className="text-xs text-muted-foreground">
+                Matched:{" "}
+                {match.matched_fields
+                  .map((field) => {
+                    const kind = match.match_kinds?.[field];
+                    return kind
+                      ? `${MATCH_FIELD_LABELS[field]} (${MATCH_KIND_LABELS[kind]})`
+                      : MATCH_FIELD_LABELS[field];
+                  })
+                  .join(", ")}
+              </p>
+            )}
             {word.synonyms && word.synonyms.length > 0 && (
               <div className="flex flex-wrap gap-1">
                 {word.synonyms.slice(0, 3).map((syn, index) => (
@@ -415,6 +573,11 @@ function WordCard({
             >
               <Volume2 className="h-4 w-4" />
             </Button>
+            <AddToListMenu
+              wordId={word.id}
+              iconOnly
+              className="transition-fast"
+            />
             <Button
               variant="ghost"
               size="sm"
@@ -436,149 +599,3 @@ function WordCard({
     </Card>
   );
 }
-
-// Word Details Component
-interface WordDetailsProps {
-  word: Word;
-  isFavorite: boolean;
-  onFavoriteToggle: () => void;
-  onPlayAudio: () => void;
-}
-
-function WordDetails({
-  word,
-  isFavorite,
-  onFavoriteToggle,
-  onPlayAudio,
-}: WordDetailsProps) {
-  const [isAnimating, setIsAnimating] = useState(false);
-
-  const handleFavoriteClick = () => {
-    setIsAnimating(true);
-    onFavoriteToggle();
-
-    // Reset animation after completion - faster
-    setTimeout(() => setIsAnimating(false), 300);
-  };
-  return (
-    <Card>
-      <CardHeader>
-        <div className="flex items-start justify-between">
-          <div className="space-y-2">
-            <CardTitle className="text-2xl md:text-3xl font-chakma text-chakma-primary">
-              {word.chakma_word_script}
-            </CardTitle>
-            <div className="text-sm md:text-base text-muted-foreground">
-              /{word.romanized_pronunciation}/
-            </div>
-            <h2 className="text-xl md:text-2xl font-semibold">
-              {word.english_translation}
-            </h2>
-          </div>
-
-          <div className="flex gap-2">
-            <Button variant="outline" size="sm" onClick={onPlayAudio}>
-              <Volume2 className="h-4 w-4 mr-2" />
-              Play
-            </Button>
-            <Button
-              variant={isFavorite ? "default" : "outline"}
-              size="sm"
-              onClick={handleFavoriteClick}
-              className="transition-all duration-200 hover:scale-105"
-            >
-              <Heart
-                className={cn(
-                  "h-4 w-4 mr-2 heart-icon transition-all duration-300",
-                  isFavorite ? "heart-favorite" : "heart-unfavorite",
-                  isAnimating &&
-                    (isFavorite ? "animate-fill" : "animate-bounce"),
-                )}
-              />
-              {isFavorite ? "Favorited" : "Favorite"}
-            </Button>
-          </div>
-        </div>
-      </CardHeader>
-
-      <CardContent className="space-y-6">
-        {/* Synonyms */}
-        {word.synonyms && word.synonyms.length > 0 && (
-          <div>
-            <h3 className="font-medium mb-2">Synonyms</h3>
-            <div className="flex flex-wrap gap-2">
-              {word.synonyms.map((syn, index) => (
-                <Badge
-                  key={index}
-                  variant="secondary"
-                  className={cn(syn.language === "chakma" && "font-chakma")}
-                >
-                  {syn.term}
-                </Badge>
-              ))}
-            </div>
-          </div>
-        )}
-
-        {/* Antonyms */}
-        {word.antonyms && word.antonyms.length > 0 && (
-          <div>
-            <h3 className="font-medium mb-2">Antonyms</h3>
-            <div className="flex flex-wrap gap-2">
-              {word.antonyms.map((ant, index) => (
-                <Badge
-                  key={index}
-                  variant="outline"
-                  className={cn(ant.language === "chakma" && "font-chakma")}
-                >
-                  {ant.term}
-                </Badge>
-              ))}
-            </div>
-          </div>
-        )}
-
-        <Separator />
-
-        {/* Example Sentence */}
-        <div>
-          <h3 className="font-medium mb-2">Example Usage</h3>
-          <p className="text-muted-foreground italic">
-            {word.example_sentence}
-          </p>
-        </div>
-
-        {/* Etymology */}
-        <div>
-          <h3 className="font-medium mb-2">Etymology</h3>
-          <p className="text-muted-foreground">{word.etymology}</p>
-        </div>
-
-        {/* Visual Explanation */}
-        {word.explanation_media && (
-          <div>
-            <h3 className="font-medium mb-2">Visual Reference</h3>
-            {word.explanation_media.type === "url" ? (
-              <Button variant="outline" size="sm" asChild>
-                <a
-                  href={word.explanation_media.value}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                >
-                  <ExternalLink className="h-4 w-4 mr-2" />
-                  View Reference
-                </a>
-              </Button>
-            ) : (
-              <img
-                src={word.explanation_media.value}
-                alt={`Visual explanation for ${word.english_translation}`}
-                className="rounded-lg max-w-full h-auto"
-              />
-            )}
-          </div>
-        )}
-      </CardContent>
-    </Card>
-  );
-}
@@ -1,6 +1,6 @@
 /**
  * Favorites Page - Manage saved words
- * Features: View, search, and organize favorite words
+ * Features: View, search, and organize favorite words and named word lists
  */
 
 import React, { useState, useEffect } from "react";
@@ -16,30 +16,61 @@ import {
   BookOpen,
   Download,
   HeartOff,
+  CircleSlash,
 } from "lucide-react";
+import { Link } from "react-router-dom";
 import { cn } from "@/lib/utils";
 
 import { Word } from "@shared/types";
-import { sampleWords, findWordById } from "@shared/sampleData";
-import { FavoritesManager, AudioManager } from "@/lib/storage";
+import {
+  FavoritesManager,
+  AudioManager,
+  type FavoriteSnapshot,
+} from "@/lib/storage";
+import { useDictionary } from "@/hooks/use-dictionary";
+import WordCollections from "@/components/WordCollections";
+
+// A favorite whose word is no longer in the dictionary
+interface RemovedFavorite {
+  id: string;
+  snapshot?: FavoriteSnapshot;
+}
 
 export default function Favorites() {
   const [favorites, setFavorites] = useState<string[]>([]);
   const [favoriteWords, setFavoriteWords] = useState<Word[]>([]);
+  const [removedFavorites, setRemovedFavorites] = useState<RemovedFavorite[]>(
+    [],
+  );
+  const [pendingCount, setPendingCount] = useState(0);
   const [searchQuery, setSearchQuery] = useState("");
   const [filteredWords, setFilteredWords] = useState<Word[]>([]);
+  const { words, source } = useDictionary();
 
   useEffect(() => {
-    const favoriteIds = FavoritesManager.get();
-    setFavorites(favoriteIds);
-
-    const words = favoriteIds
-      .map((id) => findWordById(id))
-      .filter(Boolean) as Word[];
-    setFavoriteWords(words);
-    setFilteredWords(words);
+    setFavorites(FavoritesManager.get());
   }, []);
 
+  // Resolved against the cached dictionary, so words added through the API
+  // show up as well as the bundled ones
+  useEffect(() => {
+    const byId = new Map(words.map((word) => [word.id, word]));
+    const missing = favorites.filter((id) => !byId.has(id));
+    setFavoriteWords(favorites.map((id) => byId.get(id)).filter(Boolean));
+    FavoritesManager.rememberWords(words);
+
+    // Only the live dictionary tells that a word is gone: the bundled sample
+    // words stand in until it loads, and an offline copy may predate a word
+    if (source !== "live") {
+      setRemovedFavorites([]);
+      setPendingCount(missing.length);
+      return;
+    }
+    const snapshots = FavoritesManager.getSnapshots();
+    setRemovedFavorites(missing.map((id) => ({ id, snapshot: snapshots[id] })));
+    setPendingCount(0);
+  }, [favorites, words, source]);
+
   useEffect(() => {
     if (!searchQuery.trim()) {
       setFilteredWords(favoriteWords);
@@ -62,18 +93,11 @@ export default function Favorites() {
     FavoritesManager.remove(wordId);
     const updatedFavorites = favorites.filter((id) => id !== wordId);
     setFavorites(updatedFavorites);
-
-    const updatedWords = updatedFavorites
-      .map((id) => findWordById(id))
-      .filter(Boolean) as Word[];
-    setFavoriteWords(updatedWords);
   };
 
   const handleClearAll = () => {
     FavoritesManager.clear();
     setFavorites([]);
-    setFavoriteWords([]);
-    setFilteredWords([]);
   };
 
   const handlePlayAudio = async (url?: string) => {
@@ -113,7 +137,7 @@ export default function Favorites() {
           <h1 className="text-3xl font-bold text-foreground">Favorite Words</h1>
           <p className="text-muted-foreground">Your saved words collection</p>
         </div>
-        {favoriteWords.length > 0 && (
+        {favorites.length > 0 && (
           <div className="flex gap-2">
             <Button variant="outline" onClick={exportFavorites}>
               <Download className="h-4 w-4 mr-2" />
@@ -127,7 +151,7 @@ export default function Favorites() {
         )}
       </div>
 
-      {favoriteWords.length === 0 ? (
+      {favorites.length === 0 ? (
         <Card className="text-center py-16">
           <CardContent>
             <HeartOff className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
@@ -166,7 +190,7 @@ export default function Favorites() {
             <Card className="flex-1">
               <CardContent className="pt-6">
                 <div className="text-2xl font-bold text-chakma-primary">
-                  {favoriteWords.length}
+                  {favorites.length}
                 </div>
                 <p className="text-sm text-muted-foreground">Total Favorites</p>
               </CardContent>
@@ -181,17 +205,40 @@ export default function Favorites() {
             </Card>
           </div>
 
+          {pendingCount > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {pendingCount} more{" "}
+              {pendingCount === 1 ? "favorite appears" : "favorites appear"}{" "}
+              once the dictionary has synced.
+            </p>
+          )}
+
+          {/* Removed from the dictionary */}
+          {removedFavorites.length > 0 && (
+            <div className="space-y-2">
+              {removedFavorites.map((favorite) => (
+                <RemovedFavoriteCard
+                  key={favorite.id}
+                  favorite={favorite}
+                  onRemove={() => handleRemoveFavorite(favorite.id)}
+                />
+              ))}
+            </div>
+          )}
+
           {/* Favorites List */}
           {filteredWords.length === 0 ? (
-            <Card className="text-center py-12">
-              <CardContent>
-                <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-lg font-medium mb-2">No matches found</h3>
-                <p className="text-muted-foreground">
-                  Try searching with different terms.
-                </p>
-              </CardContent>
-            </Card>
+            favoriteWords.length > 0 && (
+              <Card className="text-center py-12">
+                <CardContent>
+                  <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-medium mb-2">No matches found</h3>
+                  <p className="text-muted-foreground">
+                    Try searching with different terms.
+                  </p>
+                </CardContent>
+              </Card>
+            )
           ) : (
             <div className="space-y-4">
               {filteredWords.map((word) => (
@@ -208,6 +255,9 @@ export default function Favorites() {
           )}
         </>
       )}
+
+      {/* Named word lists */}
+      <WordCollections words={words} source={source} />
     </div>
   );
 }
@@ -240,7 +290,12 @@ function FavoriteWordCard({
           <div className="flex-1 space-y-3">
             <div className="flex items-center gap-3">
               <h3 className="text-2xl font-chakma text-chakma-primary">
-                {word.chakma_word_script}
+                <Link
+                  to={`/word/${encodeURIComponent(word.id)}`}
+                  className="hover:underline"
+                >
+                  {word.chakma_word_script}
+                </Link>
               </h3>
               <div className="text-sm text-muted-foreground">
                 /{word.romanized_pronunciation}/
@@ -303,3 +358,46 @@ function FavoriteWordCard({
     </Card>
   );
 }
+
+interface RemovedFavoriteCardProps {
+  favorite: RemovedFavorite;
+  onRemove: () => void;
+}
+
+function RemovedFavoriteCard({ favorite, onRemove }: RemovedFavoriteCardProps) {
+  const { snapshot } = favorite;
+  return (
+    <Card className="border-dashed bg-muted/40">
+      <CardContent className="p-4 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3 min-w-0">
+          <CircleSlash className="h-5 w-5 text-muted-foreground shrink-0" />
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              {snapshot ? (
+                <>
+                  <span className="text-xl font-chakma text-muted-foreground line-through">
+                    {snapshot.chakma_word_script}
+                  </span>
+                  <span className="text-sm text-muted-foreground truncate">
+                    {snapshot.english_translation}
+                  </span>
+                </>
+              ) : (
+                <span className="text-sm text-muted-foreground truncate">
+                  Word {favorite.id}
+                </span>
+              )}
+            </div>
+            <Badge variant="outline" className="text-xs mt-1">
+              Removed from dictionary
+            </Badge>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={onRemove}>
+          <HeartOff className="h-4 w-4 mr-2" />
+          Remove
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
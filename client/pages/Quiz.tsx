@@ -22,7 +22,8 @@ import {
 import { cn } from '@/lib/utils';
 
 import { QuizQuestion, QuizType, QuizResult } from '@shared/types';
-import { sampleWords, sampleCharacters, getRandomWords, getRandomCharacters } from '@shared/sampleData';
+import { getRandomWords, getRandomCharacters } from '@shared/sampleData';
+import { useDictionary } from '@/hooks/use-dictionary';
 
 interface QuizSession {
   questions: QuizQuestion[];
@@ -39,6 +40,8 @@ export default function Quiz() {
   const [selectedAnswer, setSelectedAnswer] = useState('');
   const [showResult, setShowResult] = useState(false);
   const [selectedQuizType, setSelectedQuizType] = useState<QuizType>('english_to_chakma');
+  // Cached words and characters, so quizzes work offline
+  const { words: dictionary, characters: inventory } = useDictionary();
 
   // Timer effect
   useEffect(() => {
@@ -80,7 +83,7 @@ export default function Quiz() {
     
     if (type === 'character_recognition') {
       // For character recognition, use other character romanized names
-      const otherChars = sampleCharacters
+      const otherChars = inventory
         .filter(char => char.romanized_name !== correctAnswer)
         .map(char => char.romanized_name);
       
@@ -93,7 +96,7 @@ export default function Quiz() {
       }
     } else {
       // For translation questions, use other words
-      const otherWords = sampleWords
+      const otherWords = dictionary
         .filter(word => 
           type === 'english_to_chakma' 
             ? word.chakma_word_script !== correctAnswer
@@ -128,7 +131,7 @@ export default function Quiz() {
     const allOptions: string[][] = [];
     
     if (type === 'character_recognition') {
-      const characters = getRandomCharacters(count);
+      const characters = getRandomCharacters(count, inventory);
       characters.forEach((char, index) => {
         const question: QuizQuestion = {
           id: `q-${index}`,
@@ -141,7 +144,7 @@ export default function Quiz() {
         allOptions.push(generateOptions(char.romanized_name, type));
       });
     } else {
-      const words = getRandomWords(count);
+      const words = getRandomWords(count, dictionary);
       words.forEach((word, index) => {
         if (type === 'english_to_chakma') {
           const question: QuizQuestion = {
@@ -1,6 +1,7 @@
 /**
  * Settings Page - App personalization and preferences
- * Features: Theme selection, font size, sound controls, data management
+ * Features: Theme selection, font size, sound controls, offline audio,
+ * data management
  */
 
 import React, { useState, useEffect } from "react";
@@ -25,17 +26,33 @@ import {
   Coffee,
   Sparkles,
   Monitor,
+  WifiOff,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
-import { ThemeMode, FontSize, UserPreferences } from "@shared/types";
+import {
+  ThemeMode,
+  FontSize,
+  UserPreferences,
+  OfflineAudioScope,
+} from "@shared/types";
 import {
   PreferencesManager,
   AudioManager,
+  FavoritesManager,
   exportAllData,
   importAllData,
   clearAllData,
 } from "@/lib/storage";
+import { useDictionary } from "@/hooks/use-dictionary";
+import {
+  OfflineAudioProgress,
+  audioUrlsFor,
+  clearOfflineAudio,
+  countSavedAudio,
+  isOfflineAudioAvailable,
+  syncOfflineAudio,
+} from "@/lib/offlineAudio";
 
 export default function Settings() {
   const [preferences, setPreferences] = useState<UserPreferences>(
@@ -43,12 +60,28 @@ export default function Settings() {
   );
   const [isImporting, setIsImporting] = useState(false);
   const [importSuccess, setImportSuccess] = useState(false);
+  const { words } = useDictionary();
+  const [savedAudio, setSavedAudio] = useState(0);
+  const [audioProgress, setAudioProgress] =
+    useState<OfflineAudioProgress | null>(null);
+
+  const offlineAudioUrls = audioUrlsFor(
+    words,
+    preferences.offline_audio,
+    FavoritesManager.get(),
+  );
 
   useEffect(() => {
     const current = PreferencesManager.get();
     setPreferences(current);
   }, []);
 
+  useEffect(() => {
+    countSavedAudio(offlineAudioUrls)
+      .then(setSavedAudio)
+      .catch(() => setSavedAudio(0));
+  }, [offlineAudioUrls.join("\n")]);
+
   const handleThemeChange = (theme: ThemeMode) => {
     const updated = { ...preferences, theme };
     setPreferences(updated);
@@ -67,6 +100,38 @@ export default function Settings() {
     PreferencesManager.set(updated);
   };
 
+  const downloadAudio = async (scope: OfflineAudioScope) => {
+    const urls = audioUrlsFor(words, scope, FavoritesManager.get());
+    setAudioProgress({ done: 0, total: urls.length, failed: 0 });
+    try {
+      // Ask the browser not to evict the files when storage runs low
+      await navigator.storage?.persist?.();
+      const result = await syncOfflineAudio(urls, setAudioProgress);
+      setSavedAudio(await countSavedAudio(urls));
+      if (result.failed) {
+        alert(
+          `${result.failed} of ${result.total} audio files could not be downloaded. They will be retried next time the app is online.`,
+        );
+      }
+    } catch (error) {
+      alert(`Audio download failed: ${(error as Error)?.message || error}`);
+    } finally {
+      setAudioProgress(null);
+    }
+  };
+
+  const handleOfflineAudioChange = async (scope: OfflineAudioScope) => {
+    const updated = { ...preferences, offline_audio: scope };
+    setPreferences(updated);
+    PreferencesManager.set(updated);
+    if (scope === "off") {
+      await clearOfflineAudio();
+      setSavedAudio(0);
+    } else {
+      await downloadAudio(scope);
+    }
+  };
+
   const handleExportData = () => {
     const data = exportAllData();
     const blob = new Blob([data], { type: "application/json" });
@@ -112,6 +177,7 @@ export default function Settings() {
       )
     ) {
       clearAllData();
+      clearOfflineAudio().then(() => setSavedAudio(0));
       const defaultPrefs = PreferencesManager.get();
       setPreferences(defaultPrefs);
     }
@@ -165,6 +231,24 @@ export default function Settings() {
     { id: "2xl" as FontSize, label: "Huge", size: "24px" },
   ];
 
+  const offlineAudioScopes = [
+    {
+      id: "off" as OfflineAudioScope,
+      label: "Off",
+      description: "Stream audio when played",
+    },
+    {
+      id: "favorites" as OfflineAudioScope,
+      label: "Favorites",
+      description: "Save audio for your favorite words",
+    },
+    {
+      id: "all" as OfflineAudioScope,
+      label: "Whole dictionary",
+      description: "Save audio for every word",
+    },
+  ];
+
   return (
     <div className="max-w-4xl mx-auto space-y-3 md:space-y-6">
       {/* Header */}
@@ -286,6 +370,65 @@ export default function Settings() {
               className="w-full"
             />
           </div>
+
+          {isOfflineAudioAvailable() && (
+            <>
+              <Separator />
+
+              <div>
+                <Label className="text-base font-medium flex items-center gap-2">
+                  <WifiOff className="h-4 w-4" />
+                  Download Audio for Offline
+                </Label>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Keep pronunciations on this device so they play without a
+                  connection. New words are added as the dictionary updates.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  {offlineAudioScopes.map((scope) => (
+                    <button
+                      key={scope.id}
+                      onClick={() => handleOfflineAudioChange(scope.id)}
+                      disabled={!!audioProgress}
+                      className={cn(
+                        "p-3 rounded-lg border text-left transition-all duration-200",
+                        preferences.offline_audio === scope.id
+                          ? "border-primary bg-primary/10"
+                          : "border-border hover:border-primary/50",
+                      )}
+                    >
+                      <div className="font-medium">{scope.label}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {scope.description}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+
+                {preferences.offline_audio !== "off" && (
+                  <div className="flex items-center justify-between gap-4 mt-3">
+                    <span className="text-sm text-muted-foreground">
+                      {audioProgress
+                        ? `Downloading ${audioProgress.done} of ${audioProgress.total}...`
+                        : `${savedAudio} of ${offlineAudioUrls.length} audio files saved`}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => downloadAudio(preferences.offline_audio)}
+                      disabled={
+                        !!audioProgress ||
+                        savedAudio === offlineAudioUrls.length
+                      }
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Download Now
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
         </CardContent>
       </Card>
 
@@ -302,7 +445,7 @@ export default function Settings() {
             <div>
               <h3 className="font-medium mb-2">Export Data</h3>
               <p className="text-sm text-muted-foreground mb-3">
-                Download your settings, favorites, and search history
+                Download your settings, favorites, word lists, and search history
               </p>
               <Button
                 onClick={handleExportData}
@@ -0,0 +1,116 @@
+/**
+ * Word Page - A single dictionary entry at /word/:id
+ * Features: Shareable, bookmarkable link to one word
+ */
+
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ArrowLeft, FileX, Search } from "lucide-react";
+import WordDetails from "@/components/WordDetails";
+import LoadingSpinner from "@/components/LoadingSpinner";
+
+import { Word } from "@shared/types";
+import { findWordById } from "@shared/sampleData";
+import { FavoritesManager, AudioManager } from "@/lib/storage";
+import { readCachedDictionary } from "@/lib/offlineCache";
+
+export default function WordPage() {
+  const { id = "" } = useParams();
+  const [word, setWord] = useState<Word | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFavorite, setIsFavorite] = useState(() =>
+    FavoritesManager.isFavorite(id),
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setIsFavorite(FavoritesManager.isFavorite(id));
+    (async () => {
+      let found: Word | null;
+      try {
+        const { apiClient } = await import("@/lib/apiClient");
+        found = (await apiClient.getWord(id)).word;
+      } catch (e: any) {
+        // A 404 means the word is gone; anything else, fall back to the
+        // offline copy, or the bundled sample words before the first sync
+        if (e?.status === 404) {
+          found = null;
+        } else {
+          const cached = await readCachedDictionary().catch(() => null);
+          found =
+            (cached
+              ? cached.words.find((w) => w.id === id)
+              : findWordById(id)) ?? null;
+        }
+      }
+      if (!cancelled) {
+        setWord(found);
+        setIsLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  useEffect(() => {
+    if (!word) return;
+    const previous = document.title;
+    document.title = `${word.chakma_word_script} (${word.romanized_pronunciation}) – ${word.english_translation} | ChakmaLex`;
+    return () => {
+      document.title = previous;
+    };
+  }, [word]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-[40vh] flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to="/">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Dictionary
+        </Link>
+      </Button>
+
+      {word ? (
+        <WordDetails
+          word={word}
+          isFavorite={isFavorite}
+          onFavoriteToggle={() => setIsFavorite(FavoritesManager.toggle(word))}
+          onPlayAudio={() =>
+            word.audio_pronunciation_url &&
+            AudioManager.playAudio(word.audio_pronunciation_url).catch((e) =>
+              console.error("Error playing audio:", e),
+            )
+          }
+        />
+      ) : (
+        <Card className="text-center py-12">
+          <CardContent className="space-y-4">
+            <FileX className="h-12 w-12 text-muted-foreground mx-auto" />
+            <h1 className="text-lg font-medium">Word not found</h1>
+            <p className="text-muted-foreground">
+              This word may have been removed from the dictionary.
+            </p>
+            <Button asChild>
+              <Link to="/">
+                <Search className="h-4 w-4 mr-2" />
+                Search the dictionary
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,32 @@
 import serverless from "serverless-http";
+import path from "path";
+import { promises as fs } from "fs";
 
 import { createServer } from "../../server";
 
-export const handler = serverless(createServer());
+let indexHtml: Promise<string> | undefined;
+
+// index.html ships with the function (included_files in netlify.toml); the
+// deployed copy is the fallback
+async function readIndexHtml(): Promise<string> {
+  try {
+    return await fs.readFile(path.resolve("dist/spa/index.html"), "utf8");
+  } catch {
+    const res = await fetch(`${process.env.URL}/index.html`);
+    if (!res.ok)
+      throw new Error(`Could not load index.html: HTTP ${res.status}`);
+    return res.text();
+  }
+}
+
+export const handler = serverless(
+  createServer({
+    loadIndexHtml: () => {
+      indexHtml ??= readIndexHtml().catch((e) => {
+        indexHtml = undefined;
+        throw e;
+      });
+      return indexHtml;
+    },
+  }),
+);
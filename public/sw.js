@@ -1,26 +1,26 @@
 // ChakmaLex Service Worker
-const CACHE_NAME = 'chakmalex-v1.0.1';
-const STATIC_CACHE_URLS = [
-  '/',
-  '/index.html',
-  '/manifest.json',
-  '/icons/icon-192.png',
-  '/icons/icon-512.png'
-];
-
-// Install event - cache static assets
+
+// Filled in at build time by the precache plugin in vite.config.ts: every file
+// of the built app, and a hash of their contents that names the cache, so each
+// deploy installs a fresh copy and drops the old one. These defaults are for
+// the dev server.
+const PRECACHE_VERSION = 'dev';
+const PRECACHE_URLS = ['/', '/index.html', '/manifest.json'];
+
+const CACHE_NAME = `chakmalex-shell-${PRECACHE_VERSION}`;
+// Pronunciation files saved from Settings (see client/lib/offlineAudio.ts);
+// kept across deploys
+const AUDIO_CACHE = 'chakmalex-audio';
+
+// Install event - cache the app shell
 self.addEventListener('install', (event) => {
+  // A failed download fails the install, leaving the previous version in
+  // charge until the next attempt
   event.waitUntil(
     caches.open(CACHE_NAME)
-      .then((cache) => {
-        console.log('Opened cache');
-        return cache.addAll(STATIC_CACHE_URLS);
-      })
-      .catch((error) => {
-        console.error('Cache addAll failed:', error);
-      })
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
   );
-  self.skipWaiting();
 });
 
 // Activate event - clean up old caches
@@ -29,7 +29,7 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME) {
+          if (cacheName !== CACHE_NAME && cacheName !== AUDIO_CACHE) {
             console.log('Deleting old cache:', cacheName);
             return caches.delete(cacheName);
           }
@@ -52,6 +52,17 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // Media elements ask for byte ranges; answer them from saved audio
+  const range = event.request.headers.get('range');
+  if (range) {
+    event.respondWith(
+      caches.open(AUDIO_CACHE)
+        .then((cache) => cache.match(event.request.url))
+        .then((cached) => (cached ? rangeResponse(cached, range) : fetch(event.request)))
+    );
+    return;
+  }
+
   event.respondWith(
     caches.match(event.request)
       .then((response) => {
@@ -86,6 +97,37 @@ self.addEventListener('fetch', (event) => {
   );
 });
 
+// A 206 with the requested bytes of a whole cached file (416 when the range
+// is unusable), as Safari only plays audio served in parts
+async function rangeResponse(response, range) {
+  const blob = await response.blob();
+  const size = blob.size;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  let start = -1;
+  let end = size - 1;
+  if (match && match[1]) {
+    start = Number(match[1]);
+    if (match[2]) end = Math.min(Number(match[2]), size - 1);
+  } else if (match && match[2]) {
+    start = Math.max(size - Number(match[2]), 0);
+  }
+  if (start < 0 || start > end) {
+    return new Response(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${size}` },
+    });
+  }
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': response.headers.get('Content-Type') || blob.type,
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
+
 // Background sync for favorites and settings
 self.addEventListener('sync', (event) => {
   if (event.tag === 'background-sync') {
@@ -0,0 +1,94 @@
+import { randomUUID } from "crypto";
+import type {
+  AuditLogQuery,
+  Character,
+  ContentManagementOperation,
+  Word,
+} from "@shared/types";
+import type { AuditEntry } from "./types";
+
+type Snapshot = Word | Character;
+
+// Timestamps change on every save and would show up in every diff
+const IGNORED_FIELDS = new Set(["updated_at"]);
+
+/** Top-level fields whose values differ between two snapshots */
+export function diffFields(
+  before: Snapshot | null,
+  after: Snapshot | null,
+): string[] {
+  const keys = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  return [...keys].filter(
+    (key) =>
+      !IGNORED_FIELDS.has(key) &&
+      JSON.stringify(before?.[key as keyof Snapshot] ?? null) !==
+        JSON.stringify(after?.[key as keyof Snapshot] ?? null),
+  );
+}
+
+export interface ContentChange {
+  type: ContentManagementOperation["type"];
+  target: ContentManagementOperation["target"];
+  before: Snapshot | null;
+  after: Snapshot | null;
+}
+
+export function createAuditEntry(
+  change: ContentChange,
+  performedBy: string,
+  timestamp = new Date().toISOString(),
+): AuditEntry {
+  return {
+    id: randomUUID(),
+    type: change.type,
+    target: change.target,
+    target_id: (change.after ?? change.before)!.id,
+    performed_by: performedBy,
+    timestamp,
+    before: change.before,
+    after: change.after,
+    changed_fields: diffFields(change.before, change.after),
+  };
+}
+
+/** Applies `GET /api/audit` filters; returns newest entries first */
+export function filterAuditEntries(
+  entries: AuditEntry[],
+  query: AuditLogQuery,
+): AuditEntry[] {
+  const from = query.from ? Date.parse(query.from) : -Infinity;
+  const to = query.to ? Date.parse(query.to) : Infinity;
+  const matches = entries.filter((entry) => {
+    const time = Date.parse(entry.timestamp);
+    return (
+      (!query.target || entry.target === query.target) &&
+      (!query.target_id || entry.target_id === query.target_id) &&
+      (!query.actor || entry.performed_by === query.actor) &&
+      time >= from &&
+      time <= to
+    );
+  });
+  matches.reverse();
+  return query.limit ? matches.slice(0, query.limit) : matches;
+}
+
+/**
+ * Entries of a JSON Lines log. A line that does not parse, e.g. one cut
+ * short by a crash mid-append, is skipped with a warning naming `source`,
+ * so it cannot hide the rest of the history.
+ */
+export function parseAuditLines(content: string, source: string): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  content.split("\n").forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      console.warn(`Skipping unreadable line ${i + 1} of audit log ${source}`);
+    }
+  });
+  return entries;
+}
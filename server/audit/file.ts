@@ -0,0 +1,55 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { parseAuditLines } from "./entries";
+import type { AuditLog } from "./types";
+
+// True when the file's last line has no newline, i.e. an append was cut short
+async function endsMidLine(file: string): Promise<boolean> {
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(file, "r");
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return false;
+    throw e;
+  }
+  try {
+    const { size } = await handle.stat();
+    if (size === 0) return false;
+    const { buffer } = await handle.read(Buffer.alloc(1), 0, 1, size - 1);
+    return buffer[0] !== 0x0a;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Appends entries to a JSON Lines file on local disk. Appends are a single
+ * write, so concurrent editors never overwrite each other's entries.
+ */
+export function createFileAuditLog(filePath: string): AuditLog {
+  const resolved = path.resolve(filePath);
+  return {
+    backend: "file",
+    async append(...entries) {
+      if (!entries.length) return;
+      await fs.mkdir(path.dirname(resolved), { recursive: true });
+      // Start after a cut-short line rather than joining it
+      const start = (await endsMidLine(resolved)) ? "\n" : "";
+      await fs.appendFile(
+        resolved,
+        start + entries.map((entry) => JSON.stringify(entry) + "\n").join(""),
+        "utf8",
+      );
+    },
+    async list() {
+      let content: string;
+      try {
+        content = await fs.readFile(resolved, "utf8");
+      } catch (e: any) {
+        if (e?.code === "ENOENT") return [];
+        throw e;
+      }
+      return parseAuditLines(content, resolved);
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import {
+  GitHubApiError,
+  commitRepoFiles,
+  getRepoFile,
+  listRepoDirectory,
+  type RepoFileChange,
+} from "../routes/github";
+import { parseAuditLines } from "./entries";
+import type { AuditEntry, AuditLog } from "./types";
+
+const MAX_APPEND_ATTEMPTS = 3;
+
+const SHARD_NAME = /^\d{4}-\d{2}\.jsonl$/;
+
+/**
+ * Stores the audit log in the content repository as JSON Lines, one file per
+ * month under `dir` (e.g. `2026-01.jsonl`), so an append only rewrites the
+ * current month. Entries are staged into the data commit of the edit they
+ * record; appending on its own does not fire the Netlify build hook.
+ */
+export function createGitHubAuditLog(dir: string): AuditLog {
+  // The month files with `added` appended, read at their current revision
+  async function stage(...added: AuditEntry[]): Promise<RepoFileChange[]> {
+    const byMonth = new Map<string, AuditEntry[]>();
+    for (const entry of added) {
+      const month = entry.timestamp.slice(0, 7);
+      byMonth.set(month, [...(byMonth.get(month) ?? []), entry]);
+    }
+    return Promise.all(
+      [...byMonth].map(async ([month, entries]) => {
+        const path = `${dir}/${month}.jsonl`;
+        const { content, sha } = await getRepoFile(path);
+        // Never rewrite an existing file from an unreadable copy: that would
+        // replace the month's history with just the new entries
+        if (sha && content === null) {
+          throw new Error(`Audit log ${path} could not be read`);
+        }
+        const existing =
+          content && !content.endsWith("\n") ? `${content}\n` : content || "";
+        const lines = entries.map((entry) => JSON.stringify(entry) + "\n");
+        return { path, content: existing + lines.join(""), sha };
+      }),
+    );
+  }
+
+  return {
+    backend: "github",
+    stage,
+    async append(...added) {
+      if (!added.length) return;
+      const [first] = added;
+      const message =
+        added.length === 1
+          ? `chore(audit): ${first.type} ${first.target} ${first.target_id}`
+          : `chore(audit): ${added.length} changes`;
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await commitRepoFiles(await stage(...added), message);
+          return;
+        } catch (e) {
+          const conflict = e instanceof GitHubApiError && e.status === 409;
+          if (!conflict || attempt >= MAX_APPEND_ATTEMPTS) throw e;
+        }
+      }
+    },
+    async list() {
+      const months = (await listRepoDirectory(dir))
+        .filter((name) => SHARD_NAME.test(name))
+        .sort();
+      const entries: AuditEntry[] = [];
+      for (const name of months) {
+        const path = `${dir}/${name}`;
+        const { content } = await getRepoFile(path);
+        entries.push(...parseAuditLines(content ?? "", path));
+      }
+      return entries;
+    },
+  };
+}
@@ -0,0 +1,192 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Word } from "@shared/types";
+import {
+  createAuditEntry,
+  createFileAuditLog,
+  createGitHubAuditLog,
+  filterAuditEntries,
+  type AuditEntry,
+} from "./index";
+
+const word: Word = {
+  id: "1",
+  chakma_word_script: "𑄃𑄘𑄮",
+  romanized_pronunciation: "ado",
+  english_translation: "today",
+  example_sentence: "",
+  etymology: "",
+};
+
+const entries = [
+  createAuditEntry(
+    { type: "create", target: "word", before: null, after: word },
+    "alice",
+    "2026-01-01T10:00:00.000Z",
+  ),
+  createAuditEntry(
+    {
+      type: "update",
+      target: "word",
+      before: word,
+      after: { ...word, etymology: "Pali", updated_at: "2026-01-02" },
+    },
+    "bob",
+    "2026-01-02T10:00:00.000Z",
+  ),
+  createAuditEntry(
+    {
+      type: "create",
+      target: "word",
+      before: null,
+      after: { ...word, id: "2" },
+    },
+    "alice",
+    "2026-01-03T10:00:00.000Z",
+  ),
+];
+
+describe("createAuditEntry", () => {
+  it("lists changed fields without timestamps", () => {
+    expect(entries[1].changed_fields).toEqual(["etymology"]);
+    expect(entries[0].changed_fields).toContain("chakma_word_script");
+  });
+});
+
+describe("filterAuditEntries", () => {
+  it("filters by word, actor and date range, newest first", () => {
+    const ids = (query: object) =>
+      filterAuditEntries(entries, query).map((e) => e.id);
+    expect(ids({ target_id: "1" })).toEqual([entries[1].id, entries[0].id]);
+    expect(ids({ actor: "alice", limit: 1 })).toEqual([entries[2].id]);
+    expect(
+      ids({ from: "2026-01-02T00:00:00Z", to: "2026-01-02T23:59:59Z" }),
+    ).toEqual([entries[1].id]);
+  });
+});
+
+describe("file audit log", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends entries across instances", async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "chakmalex-audit-"));
+    const file = path.join(dir, "audit-log.jsonl");
+    expect(await createFileAuditLog(file).list()).toEqual([]);
+
+    await createFileAuditLog(file).append(entries[0]);
+    await createFileAuditLog(file).append(entries[1]);
+    expect(await createFileAuditLog(file).list()).toEqual(entries.slice(0, 2));
+  });
+
+  it("skips corrupt lines with a warning and appends after them", async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "chakmalex-audit-"));
+    const file = path.join(dir, "audit-log.jsonl");
+    const warned = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await writeFile(
+      file,
+      [
+        JSON.stringify(entries[0]),
+        // Cut short by a crash in the middle of an append
+        JSON.stringify(entries[1]).slice(0, 40),
+        JSON.stringify(entries[2]),
+        JSON.stringify(entries[0]).slice(0, 40),
+      ].join("\n"),
+    );
+    await createFileAuditLog(file).append(entries[1]);
+
+    expect(await createFileAuditLog(file).list()).toEqual([
+      entries[0],
+      entries[2],
+      entries[1],
+    ]);
+    expect(warned).toHaveBeenCalledTimes(2);
+    expect(warned.mock.calls[0][0]).toContain("line 2");
+    warned.mockRestore();
+  });
+});
+
+describe("GitHub audit log", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  const stubGitHub = (respond: (url: string, init?: RequestInit) => object) => {
+    vi.stubEnv("GITHUB_TOKEN", "token");
+    vi.stubEnv("GITHUB_OWNER", "owner");
+    vi.stubEnv("GITHUB_REPO", "repo");
+    const fetchMock = vi.fn(
+      async (url: string, init?: RequestInit) =>
+        new Response(JSON.stringify(respond(url, init))),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  };
+
+  it("refuses to append when an existing month comes back without content", async () => {
+    const fetchMock = stubGitHub(() => ({ content: "", sha: "abc" }));
+    await expect(
+      createGitHubAuditLog("data/audit-log").append(entries[2]),
+    ).rejects.toThrow();
+    expect(fetchMock.mock.calls.some(([, init]) => init?.method)).toBe(false);
+  });
+
+  it("appends to the month's file through a single commit", async () => {
+    const stored = entries
+      .slice(0, 2)
+      .map((entry) => JSON.stringify(entry) + "\n")
+      .join("");
+    let tree: { path: string; content: string }[] = [];
+    const fetchMock = stubGitHub((url, init) => {
+      if (url.endsWith("/git/trees")) {
+        tree = JSON.parse(init.body as string).tree;
+        return { sha: "tree" };
+      }
+      if (url.includes("/git/"))
+        return { sha: "c1", object: { sha: "c0" }, tree: { sha: "t0" } };
+      return {
+        content: Buffer.from(stored).toString("base64"),
+        sha: "abc",
+      };
+    });
+    await createGitHubAuditLog("data/audit-log").append(entries[2]);
+
+    expect(tree).toEqual([
+      expect.objectContaining({
+        path: "data/audit-log/2026-01.jsonl",
+        content: stored + JSON.stringify(entries[2]) + "\n",
+      }),
+    ]);
+    expect(
+      fetchMock.mock.calls.filter(([, init]) => init?.method === "PATCH"),
+    ).toHaveLength(1);
+  });
+
+  it("lists the months in order", async () => {
+    const months: Record<string, AuditEntry[]> = {
+      "2025-12.jsonl": [entries[0]],
+      "2026-01.jsonl": entries.slice(1),
+    };
+    stubGitHub((url) => {
+      const path = decodeURIComponent(new URL(url).pathname);
+      const name = Object.keys(months).find((name) => path.endsWith(name));
+      if (!name) {
+        return ["2026-01.jsonl", "README.md", "2025-12.jsonl"].map((name) => ({
+          type: "file",
+          name,
+        }));
+      }
+      const content = months[name].map((e) => JSON.stringify(e)).join("\n");
+      return { content: Buffer.from(content).toString("base64"), sha: name };
+    });
+    expect(await createGitHubAuditLog("data/audit-log").list()).toEqual(
+      entries,
+    );
+  });
+});
@@ -0,0 +1,28 @@
+import { resolveWordStorageBackend } from "../storage";
+import { createFileAuditLog } from "./file";
+import { createGitHubAuditLog } from "./github";
+import { createMemoryAuditLog } from "./memory";
+import type { AuditLog } from "./types";
+
+export type { AuditEntry, AuditLog } from "./types";
+export {
+  createAuditEntry,
+  diffFields,
+  filterAuditEntries,
+  type ContentChange,
+} from "./entries";
+export { createFileAuditLog } from "./file";
+export { createGitHubAuditLog } from "./github";
+export { createMemoryAuditLog } from "./memory";
+
+/** Keeps the audit log on the same backend as the words */
+export function createAuditLog(env: NodeJS.ProcessEnv = process.env): AuditLog {
+  switch (resolveWordStorageBackend(env)) {
+    case "github":
+      return createGitHubAuditLog(env.AUDIT_LOG_PATH || "data/audit-log");
+    case "file":
+      return createFileAuditLog(env.AUDIT_LOG_FILE || "data/audit-log.jsonl");
+    case "memory":
+      return createMemoryAuditLog();
+  }
+}
@@ -0,0 +1,15 @@
+import type { AuditEntry, AuditLog } from "./types";
+
+/** Keeps the audit log in process memory; lost on restart like the words */
+export function createMemoryAuditLog(): AuditLog {
+  const entries: AuditEntry[] = [];
+  return {
+    backend: "memory",
+    async append(...added) {
+      entries.push(...structuredClone(added));
+    },
+    async list() {
+      return structuredClone(entries);
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import type { ContentManagementOperation } from "@shared/types";
+import type { RepoFileChange } from "../routes/github";
+import type { WordStorageBackend } from "../storage";
+
+export type AuditEntry = ContentManagementOperation &
+  Required<Pick<ContentManagementOperation, "id" | "target_id">>;
+
+/**
+ * Append-only record of content changes. Backends mirror the word storage
+ * backends so the log lives next to the data it describes.
+ */
+export interface AuditLog {
+  readonly backend: WordStorageBackend;
+  /** Adds entries in one write, e.g. every word of a bulk import */
+  append(...entries: AuditEntry[]): Promise<void>;
+  /** All entries, oldest first */
+  list(): Promise<AuditEntry[]>;
+  /**
+   * The files that record `entries` when committed with a save, so that on
+   * GitHub an edit and its audit entries are a single commit. Logs without
+   * it are appended to after the save.
+   */
+  stage?(...entries: AuditEntry[]): Promise<RepoFileChange[]>;
+}
@@ -0,0 +1,95 @@
+import { randomBytes } from "crypto";
+import type { EditorRole } from "@shared/roles";
+import { isEditorRole } from "../../shared/roles";
+import { isPasswordHash } from "./passwords";
+
+export interface EditorAccount {
+  username: string;
+  role: EditorRole;
+  passwordHash: string;
+}
+
+export interface ApiToken {
+  name: string;
+  role: EditorRole;
+  token: string;
+}
+
+export interface AuthConfig {
+  accounts: EditorAccount[];
+  apiTokens: ApiToken[];
+  /** HMAC secret used to sign session tokens */
+  secret: string;
+  sessionTtlMs: number;
+}
+
+const DEFAULT_SESSION_TTL_HOURS = 12;
+// Entries without a role get the least privileged one
+const DEFAULT_ROLE: EditorRole = "contributor";
+
+// Parses "name:value,name:value"; values may contain ":" but not ","
+function parsePairs(raw: string | undefined): [string, string][] {
+  if (!raw) return [];
+  return raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const sep = entry.indexOf(":");
+      if (sep <= 0) throw new Error(`Malformed auth entry "${entry}"`);
+      return [entry.slice(0, sep).trim(), entry.slice(sep + 1).trim()];
+    });
+}
+
+// Splits an optional "role:" prefix off a credential
+function splitRole(value: string): [EditorRole, string] {
+  const sep = value.indexOf(":");
+  const prefix = value.slice(0, sep);
+  if (sep > 0 && isEditorRole(prefix)) return [prefix, value.slice(sep + 1)];
+  return [DEFAULT_ROLE, value];
+}
+
+/**
+ * Reads editor credentials from the environment:
+ * - EDITOR_ACCOUNTS: `username:role:scrypt$salt$hash` entries (see `npm run hash-password`)
+ * - EDITOR_API_TOKENS: `name:role:token` entries for scripts and CI
+ * The role (contributor, reviewer or admin) may be omitted and defaults to
+ * contributor.
+ * - JWT_SECRET: session signing key; a random one is used when unset, which
+ *   logs everybody out on restart and breaks multi-instance deployments
+ */
+export function loadAuthConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): AuthConfig {
+  const accounts = parsePairs(env.EDITOR_ACCOUNTS).map(([username, rest]) => {
+    const [role, passwordHash] = splitRole(rest);
+    if (!isPasswordHash(passwordHash)) {
+      throw new Error(
+        `Malformed password hash for editor "${username}"; generate one with npm run hash-password`,
+      );
+    }
+    return { username, role, passwordHash };
+  });
+  const apiTokens = parsePairs(env.EDITOR_API_TOKENS).map(([name, rest]) => {
+    const [role, token] = splitRole(rest);
+    return { name, role, token };
+  });
+
+  let secret = env.JWT_SECRET;
+  if (!secret) {
+    if (accounts.length > 0) {
+      console.warn(
+        "JWT_SECRET not set: using a random session secret. Editors will be logged out on restart.",
+      );
+    }
+    secret = randomBytes(32).toString("hex");
+  }
+
+  const ttlHours = Number(env.SESSION_TTL_HOURS) || DEFAULT_SESSION_TTL_HOURS;
+  return {
+    accounts,
+    apiTokens,
+    secret,
+    sessionTtlMs: ttlHours * 60 * 60 * 1000,
+  };
+}
@@ -0,0 +1,149 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { sampleWords } from "../../shared/sampleData";
+import { createMemoryAuditLog } from "../audit";
+import { createServer } from "../index";
+import { createMemoryWordRepository } from "../storage";
+import {
+  hashPassword,
+  loadAuthConfig,
+  signSession,
+  verifyPassword,
+  verifySession,
+  type AuthConfig,
+} from "./index";
+
+const SECRET = "test-secret";
+
+describe("passwords", () => {
+  it("verifies only the original password", () => {
+    const hash = hashPassword("correct horse");
+    expect(hash).toMatch(/^scrypt\$[0-9a-f]+\$[0-9a-f]+$/);
+    expect(verifyPassword("correct horse", hash)).toBe(true);
+    expect(verifyPassword("wrong", hash)).toBe(false);
+    expect(verifyPassword("correct horse", "plaintext")).toBe(false);
+  });
+
+  it("rejects malformed hashes instead of matching any password", () => {
+    expect(verifyPassword("anything", "scrypt$ab$zz")).toBe(false);
+    expect(verifyPassword("anything", "scrypt$ab$")).toBe(false);
+    expect(verifyPassword("anything", "scrypt$$" + "0".repeat(128))).toBe(
+      false,
+    );
+    expect(() =>
+      loadAuthConfig({ EDITOR_ACCOUNTS: "alice:admin:scrypt$ab$zz" }),
+    ).toThrow(/Malformed password hash/);
+  });
+});
+
+describe("sessions", () => {
+  it("round-trips claims until expiry", () => {
+    const now = Date.now();
+    const { token } = signSession("alice", SECRET, 60_000, now);
+    expect(verifySession(token, SECRET, now)?.sub).toBe("alice");
+    expect(verifySession(token, SECRET, now + 61_000)).toBeNull();
+  });
+
+  it("rejects tampered tokens and foreign secrets", () => {
+    const { token } = signSession("alice", SECRET, 60_000);
+    const [header, , signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ sub: "mallory", iat: 0, exp: 9999999999 }),
+    ).toString("base64url");
+    expect(
+      verifySession(`${header}.${forged}.${signature}`, SECRET),
+    ).toBeNull();
+    expect(verifySession(token, "other-secret")).toBeNull();
+  });
+});
+
+describe("write protection", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const auth: AuthConfig = {
+    accounts: [
+      { username: "alice", role: "admin", passwordHash: hashPassword("pw") },
+    ],
+    apiTokens: [{ name: "ci", role: "contributor", token: "ci-token" }],
+    secret: SECRET,
+    sessionTtlMs: 60_000,
+  };
+
+  beforeEach(async () => {
+    const app = createServer({
+      auth,
+      wordRepository: createMemoryWordRepository(sampleWords),
+      auditLog: createMemoryAuditLog(),
+    });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const post = (path: string, body: object, token?: string) =>
+    fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+  const newWord = {
+    chakma_word_script: "𑄝𑄬𑄣",
+    romanized_pronunciation: "bel",
+    english_translation: "sun",
+  };
+
+  it("keeps reads public and rejects anonymous writes", async () => {
+    expect((await fetch(`${baseUrl}/words`)).status).toBe(200);
+    expect((await post("/words", newWord)).status).toBe(401);
+    expect((await post("/rebuild", {})).status).toBe(401);
+    expect((await post("/upload/audio", {})).status).toBe(401);
+  });
+
+  it("accepts writes with a login session", async () => {
+    const bad = await post("/auth/login", { username: "alice", password: "x" });
+    expect(bad.status).toBe(401);
+    const malformed = await post("/auth/login", {
+      username: "alice",
+      password: 123,
+    });
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).field_errors.password).toBeDefined();
+
+    const login = await post("/auth/login", {
+      username: "alice",
+      password: "pw",
+    });
+    expect(login.status).toBe(200);
+    const { token, username } = (await login.json()).data;
+    expect(username).toBe("alice");
+
+    expect((await post("/words", newWord, token)).status).toBe(201);
+  });
+
+  it("accepts writes with a configured API token", async () => {
+    expect((await post("/words", newWord, "ci-token")).status).toBe(201);
+    expect((await post("/words", newWord, "nope")).status).toBe(401);
+  });
+
+  it("shows the audit log to editors only", async () => {
+    await post("/words", newWord, "ci-token");
+    expect((await fetch(`${baseUrl}/audit`)).status).toBe(401);
+
+    const res = await fetch(`${baseUrl}/audit?actor=ci`, {
+      headers: { Authorization: "Bearer ci-token" },
+    });
+    const { data } = await res.json();
+    expect(data).toHaveLength(1);
+    expect(data[0]).toMatchObject({ type: "create", performed_by: "ci" });
+  });
+});
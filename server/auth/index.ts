@@ -0,0 +1,14 @@
+export { loadAuthConfig } from "./config";
+export type { AuthConfig, EditorAccount, ApiToken } from "./config";
+export {
+  authenticatePassword,
+  getEditor,
+  protectWrites,
+  requireEditor,
+  requireRole,
+  resolveEditor,
+} from "./middleware";
+export type { Editor } from "./middleware";
+export { hashPassword, verifyPassword } from "./passwords";
+export { signSession, verifySession } from "./sessions";
+export type { SessionClaims } from "./sessions";
@@ -0,0 +1,110 @@
+import type { RequestHandler, Response } from "express";
+import type { EditorRole } from "@shared/roles";
+import { hasRole } from "../../shared/roles";
+import type { AuthConfig } from "./config";
+import { safeEqual, verifyPassword } from "./passwords";
+import { verifySession } from "./sessions";
+
+export interface Editor {
+  username: string;
+  role: EditorRole;
+  /** How the request authenticated: a login session or a static API token */
+  via: "session" | "token";
+}
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// Compared against when the username is unknown so both paths cost the same
+const DUMMY_HASH = "scrypt$00000000000000000000000000000000$" + "0".repeat(128);
+
+export function authenticatePassword(
+  config: AuthConfig,
+  username: string,
+  password: string,
+): Editor | null {
+  const account = config.accounts.find((a) => a.username === username);
+  const valid = verifyPassword(password, account?.passwordHash ?? DUMMY_HASH);
+  return account && valid
+    ? { username: account.username, role: account.role, via: "session" }
+    : null;
+}
+
+/** Resolves the editor behind an `Authorization: Bearer` header */
+export function resolveEditor(
+  config: AuthConfig,
+  authorization: string | undefined,
+): Editor | null {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return null;
+  const credential = match[1].trim();
+
+  const claims = verifySession(credential, config.secret);
+  // Roles are looked up on every request, so removing an account or changing
+  // its role in config takes effect for outstanding sessions too
+  const account =
+    claims && config.accounts.find((a) => a.username === claims.sub);
+  if (account) {
+    return { username: account.username, role: account.role, via: "session" };
+  }
+
+  const apiToken = config.apiTokens.find((t) => safeEqual(t.token, credential));
+  return apiToken
+    ? { username: apiToken.name, role: apiToken.role, via: "token" }
+    : null;
+}
+
+export function getEditor(res: Response): Editor | undefined {
+  return res.locals.editor;
+}
+
+/** Rejects requests without a valid session or API token */
+export function requireEditor(config: AuthConfig): RequestHandler {
+  return (req, res, next) => {
+    const editor = resolveEditor(config, req.header("Authorization"));
+    if (!editor) {
+      return res
+        .status(401)
+        .json({ success: false, error: "Authentication required" });
+    }
+    res.locals.editor = editor;
+    next();
+  };
+}
+
+/**
+ * Requires an editor with at least `role`. Expects `requireEditor` or
+ * `protectWrites` to have run earlier in the chain.
+ */
+export function requireRole(role: EditorRole): RequestHandler {
+  return (_req, res, next) => {
+    const editor = getEditor(res);
+    if (!editor) {
+      return res
+        .status(401)
+        .json({ success: false, error: "Authentication required" });
+    }
+    if (!hasRole(editor.role, role)) {
+      return res
+        .status(403)
+        .json({ success: false, error: `Requires ${role} role` });
+    }
+    next();
+  };
+}
+
+/**
+ * Guards every mutating request under the mount point. Reads stay public;
+ * paths in `publicPaths` (e.g. the login route) are let through.
+ */
+export function protectWrites(
+  config: AuthConfig,
+  publicPaths: string[] = [],
+): RequestHandler {
+  const guard = requireEditor(config);
+  return (req, res, next) => {
+    if (SAFE_METHODS.has(req.method) || publicPaths.includes(req.path)) {
+      return next();
+    }
+    guard(req, res, next);
+  };
+}
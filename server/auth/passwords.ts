@@ -0,0 +1,42 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+
+/** Hashes a password as `scrypt$<salt hex>$<hash hex>` */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+const HEX = /^(?:[0-9a-f]{2})+$/i;
+
+/**
+ * True for a well-formed `scrypt$<salt hex>$<hash hex>` value. A short or
+ * empty hash would compare equal to the scrypt of any password.
+ */
+export function isPasswordHash(stored: string): boolean {
+  const [scheme, saltHex, hashHex, ...rest] = stored.split("$");
+  return (
+    scheme === "scrypt" &&
+    rest.length === 0 &&
+    HEX.test(saltHex ?? "") &&
+    HEX.test(hashHex ?? "") &&
+    hashHex.length === KEY_LENGTH * 2
+  );
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  if (!isPasswordHash(stored)) return false;
+  const [, saltHex, hashHex] = stored.split("$");
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = scryptSync(password, Buffer.from(saltHex, "hex"), KEY_LENGTH);
+  return timingSafeEqual(actual, expected);
+}
+
+/** Constant-time string comparison for API tokens */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,58 @@
+import { createHmac } from "crypto";
+import { safeEqual } from "./passwords";
+
+export interface SessionClaims {
+  /** Editor username */
+  sub: string;
+  /** Issued-at and expiry, in seconds since the epoch */
+  iat: number;
+  exp: number;
+}
+
+const HEADER = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+/** Issues an HS256 JWT for `username` valid for `ttlMs` */
+export function signSession(
+  username: string,
+  secret: string,
+  ttlMs: number,
+  now = Date.now(),
+): { token: string; claims: SessionClaims } {
+  const iat = Math.floor(now / 1000);
+  const claims: SessionClaims = {
+    sub: username,
+    iat,
+    exp: iat + Math.floor(ttlMs / 1000),
+  };
+  const body = `${HEADER}.${base64url(JSON.stringify(claims))}`;
+  return { token: `${body}.${sign(body, secret)}`, claims };
+}
+
+/** Returns the claims of a valid, unexpired token, or null */
+export function verifySession(
+  token: string,
+  secret: string,
+  now = Date.now(),
+): SessionClaims | null {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature || header !== HEADER) return null;
+  if (!safeEqual(signature, sign(`${header}.${payload}`, secret))) return null;
+  try {
+    const claims = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8"),
+    ) as SessionClaims;
+    if (typeof claims.sub !== "string" || typeof claims.exp !== "number")
+      return null;
+    return claims.exp * 1000 > now ? claims : null;
+  } catch {
+    return null;
+  }
+}
@@ -2,37 +2,96 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
-import { wordsRouter } from "./routes/words";
+import { createAuditRouter } from "./routes/audit";
+import { createAuthRouter } from "./routes/auth";
+import { createCharactersRouter } from "./routes/characters";
+import { createSearchRouter } from "./routes/search";
+import { createSeoRouter } from "./routes/seo";
+import { createWordsRouter } from "./routes/words";
 import { uploadsRouter } from "./routes/uploads";
+import type { RouteRes } from "./routes/types";
+import {
+  loadAuthConfig,
+  protectWrites,
+  requireEditor,
+  requireRole,
+  type AuthConfig,
+} from "./auth";
+import { createAuditLog, type AuditLog } from "./audit";
+import {
+  createCharacterRepository,
+  createWordRepository,
+  type CharacterRepository,
+  type WordRepository,
+} from "./storage";
 
-export function createServer() {
+export interface ServerOptions {
+  /** Overrides the backend selected from WORDS_STORAGE (used by tests) */
+  wordRepository?: WordRepository;
+  /** Overrides the character inventory kept alongside the words */
+  characterRepository?: CharacterRepository;
+  /** Overrides the audit log kept alongside the words */
+  auditLog?: AuditLog;
+  /** Overrides editor accounts read from the environment */
+  auth?: AuthConfig;
+  /** Built index.html, to pre-render /word/:id pages; left to the SPA when unset */
+  loadIndexHtml?: () => Promise<string>;
+}
+
+export function createServer(options: ServerOptions = {}) {
   const app = express();
+  const wordRepository = options.wordRepository ?? createWordRepository();
+  const characterRepository =
+    options.characterRepository ?? createCharacterRepository();
+  const auditLog = options.auditLog ?? createAuditLog();
+  const auth = options.auth ?? loadAuthConfig();
 
   // Middleware
   app.use(cors());
-  app.use(express.json());
+  // Spreadsheet imports and base64 uploads outgrow the 100kb default
+  app.use(express.json({ limit: "5mb" }));
   app.use(express.urlencoded({ extended: true }));
 
+  // Every write under /api needs an editor session or API token
+  app.use("/api", protectWrites(auth, ["/auth/login"]));
+
   // Example API routes
-  app.get("/api/ping", (_req, res) => {
+  app.get("/api/ping", (_req, res: RouteRes<"GET /ping">) => {
     const ping = process.env.PING_MESSAGE ?? "ping";
     res.json({ message: ping });
   });
 
   app.get("/api/demo", handleDemo);
 
+  // Editor login
+  app.use("/api/auth", createAuthRouter(auth));
+
   // Health
-  app.get("/api/health", (_req, res) => res.json({ success: true }));
+  app.get("/api/health", (_req, res: RouteRes<"GET /health">) =>
+    res.json({ success: true, storage: wordRepository.backend }),
+  );
 
   // JSON body parser already configured above
   // Words CRUD
-  app.use("/api/words", wordsRouter);
+  app.use("/api/words", createWordsRouter(wordRepository, auditLog));
+
+  // Character inventory CRUD, on the same backend as the words
+  app.use(
+    "/api/characters",
+    createCharactersRouter(characterRepository, auditLog),
+  );
+
+  // Ranked, paginated dictionary search
+  app.use("/api/search", createSearchRouter(wordRepository));
+
+  // Content change history, visible to signed-in editors only
+  app.use("/api/audit", requireEditor(auth), createAuditRouter(auditLog));
 
   // Uploads
   app.use("/api/upload", uploadsRouter);
 
   // Optional rebuild trigger
-  app.post("/api/rebuild", async (_req, res) => {
+  app.post("/api/rebuild", requireRole("admin"), async (_req, res: RouteRes<"POST /rebuild">) => {
     try {
       const hook = process.env.NETLIFY_BUILD_HOOK_URL;
       if (!hook) return res.json({ success: false, message: "No build hook configured" });
@@ -43,5 +102,10 @@ export function createServer() {
     }
   });
 
+  // Crawlable word pages and sitemap.xml, built from the current words
+  app.use(
+    createSeoRouter(wordRepository, { loadTemplate: options.loadIndexHtml }),
+  );
+
   return app;
 }
@@ -1,14 +1,18 @@
 import path from "path";
+import { promises as fs } from "fs";
 import { createServer } from "./index";
+import { resolveWordStorageBackend } from "./storage";
 import * as express from "express";
 
-const app = createServer();
-const port = process.env.PORT || 3000;
-
 // In production, serve the built SPA files
 const __dirname = import.meta.dirname;
 const distPath = path.join(__dirname, "../spa");
 
+const app = createServer({
+  loadIndexHtml: () => fs.readFile(path.join(distPath, "index.html"), "utf8"),
+});
+const port = process.env.PORT || 3000;
+
 // Serve static files
 app.use(express.static(distPath));
 
@@ -26,6 +30,7 @@ app.listen(port, () => {
   console.log(`🚀 Fusion Starter server running on port ${port}`);
   console.log(`📱 Frontend: http://localhost:${port}`);
   console.log(`🔧 API: http://localhost:${port}/api`);
+  console.log(`💾 Word storage: ${resolveWordStorageBackend()}`);
 });
 
 // Graceful shutdown
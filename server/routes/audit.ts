@@ -0,0 +1,61 @@
+import { Router } from "express";
+import type { AuditLogQuery } from "@shared/types";
+import { filterAuditEntries, type AuditLog } from "../audit";
+import type { RouteRes } from "./types";
+
+const TARGETS = ["word", "character"];
+
+// Reads `GET /api/audit` filters; returns an error message when one is invalid
+function parseAuditQuery(
+  query: Record<string, unknown>,
+): AuditLogQuery | string {
+  const text = (key: string) =>
+    typeof query[key] === "string" && query[key]
+      ? String(query[key])
+      : undefined;
+  const parsed: AuditLogQuery = {
+    target: text("target") as AuditLogQuery["target"],
+    target_id: text("target_id"),
+    actor: text("actor"),
+    from: text("from"),
+    to: text("to"),
+  };
+  if (parsed.target && !TARGETS.includes(parsed.target)) {
+    return `target must be one of: ${TARGETS.join(", ")}`;
+  }
+  for (const key of ["from", "to"] as const) {
+    if (parsed[key] && Number.isNaN(Date.parse(parsed[key]))) {
+      return `${key} must be an ISO date`;
+    }
+  }
+  const limit = text("limit");
+  if (limit) {
+    parsed.limit = Number(limit);
+    if (!Number.isInteger(parsed.limit) || parsed.limit < 1) {
+      return "limit must be a positive integer";
+    }
+  }
+  return parsed;
+}
+
+export function createAuditRouter(auditLog: AuditLog) {
+  const auditRouter = Router();
+
+  auditRouter.get("/", async (req, res: RouteRes<"GET /audit">) => {
+    const query = parseAuditQuery(req.query);
+    if (typeof query === "string") {
+      return res.status(400).json({ success: false, error: query });
+    }
+    try {
+      const entries = await auditLog.list();
+      res.json({ success: true, data: filterAuditEntries(entries, query) });
+    } catch (e: any) {
+      res.status(500).json({
+        success: false,
+        error: e?.message || "Failed to load audit log",
+      });
+    }
+  });
+
+  return auditRouter;
+}
@@ -0,0 +1,54 @@
+import { Router } from "express";
+import type { AuthSession } from "@shared/types";
+import { loginRequestSchema, validate } from "../../shared/schemas";
+import {
+  authenticatePassword,
+  getEditor,
+  requireEditor,
+  signSession,
+  type AuthConfig,
+} from "../auth";
+import { validationFailure } from "../validation";
+import type { RouteRes } from "./types";
+
+export function createAuthRouter(config: AuthConfig) {
+  const authRouter = Router();
+
+  authRouter.post("/login", (req, res: RouteRes<"POST /auth/login">) => {
+    const parsed = validate(loginRequestSchema, req.body ?? {});
+    if (parsed.errors) {
+      const { status, body } = validationFailure(parsed.errors);
+      return res.status(status).json(body);
+    }
+    const { username, password } = parsed.data;
+    const editor = authenticatePassword(config, username, password);
+    if (!editor) {
+      return res
+        .status(401)
+        .json({ success: false, error: "Invalid username or password" });
+    }
+    const { token, claims } = signSession(
+      editor.username,
+      config.secret,
+      config.sessionTtlMs,
+    );
+    const session: AuthSession = {
+      token,
+      username: editor.username,
+      role: editor.role,
+      expires_at: new Date(claims.exp * 1000).toISOString(),
+    };
+    res.json({ success: true, data: session });
+  });
+
+  authRouter.get(
+    "/me",
+    requireEditor(config),
+    (_req, res: RouteRes<"GET /auth/me">) => {
+      const { username, role } = getEditor(res)!;
+      res.json({ success: true, data: { username, role } });
+    },
+  );
+
+  return authRouter;
+}
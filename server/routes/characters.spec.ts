@@ -0,0 +1,132 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { EditorRole } from "../../shared/roles";
+import { sampleCharacters } from "../../shared/sampleData";
+import { createMemoryAuditLog, type AuditLog } from "../audit";
+import { createMemoryCharacterRepository } from "../storage";
+import { createCharactersRouter } from "./characters";
+
+let server: Server;
+let baseUrl: string;
+let role: EditorRole;
+let auditLog: AuditLog;
+
+beforeEach(async () => {
+  role = "admin";
+  auditLog = createMemoryAuditLog();
+  const app = express();
+  app.use(express.json());
+  // Stands in for protectWrites: every request acts as an editor of `role`
+  app.use((_req, res, next) => {
+    res.locals.editor = { username: "tester", role, via: "token" };
+    next();
+  });
+  app.use(
+    "/api/characters",
+    createCharactersRouter(
+      createMemoryCharacterRepository(sampleCharacters),
+      auditLog,
+    ),
+  );
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/characters`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function send(method: string, path: string, body?: object, etag?: string) {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(etag ? { "If-Match": etag } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+const conjunct = {
+  // KA + virama + KA, typed with a stray ZWNJ that normalization drops
+  character_script: "\u{11107}\u{11133}‌\u{11107}",
+  character_type: "conjunct",
+  romanized_name: "kka",
+};
+
+describe("characters router", () => {
+  it("creates a conjunct with its script normalized and audits it", async () => {
+    const res = await send("POST", "", conjunct);
+    expect(res.status).toBe(201);
+    const { data } = await res.json();
+    expect(data.character_script).toBe("\u{11107}\u{11134}\u{11107}");
+
+    const list = await (await fetch(baseUrl)).json();
+    expect(
+      list.data.filter((c: any) => c.character_type === "conjunct"),
+    ).toEqual([data]);
+    const [entry] = await auditLog.list();
+    expect(entry).toMatchObject({
+      type: "create",
+      target: "character",
+      target_id: data.id,
+    });
+  });
+
+  it("rejects missing fields, unknown types and duplicate scripts", async () => {
+    expect((await send("POST", "", { character_type: "vowel" })).status).toBe(
+      400,
+    );
+    expect(
+      (await send("POST", "", { ...conjunct, character_type: "ligature" }))
+        .status,
+    ).toBe(400);
+    const existing = sampleCharacters[0];
+    expect(
+      (
+        await send("POST", "", {
+          ...conjunct,
+          character_script: existing.character_script,
+        })
+      ).status,
+    ).toBe(409);
+  });
+
+  it("rejects updates based on a stale ETag", async () => {
+    const id = sampleCharacters[0].id;
+    const etag = (await fetch(`${baseUrl}/${id}`)).headers.get("ETag")!;
+    const first = await send("PUT", `/${id}`, { description: "one" }, etag);
+    expect(first.status).toBe(200);
+
+    const second = await send("PUT", `/${id}`, { description: "two" }, etag);
+    expect(second.status).toBe(409);
+    expect((await second.json()).conflict.current.description).toBe("one");
+  });
+
+  it("reports a conflict when the character was deleted meanwhile", async () => {
+    const id = sampleCharacters[0].id;
+    const etag = (await fetch(`${baseUrl}/${id}`)).headers.get("ETag")!;
+    expect((await send("DELETE", `/${id}`)).status).toBe(200);
+
+    for (const method of ["PUT", "DELETE"]) {
+      const res = await send(method, `/${id}`, { description: "late" }, etag);
+      expect(res.status).toBe(409);
+      expect((await res.json()).conflict).toEqual({
+        current: null,
+        revision: null,
+      });
+    }
+  });
+
+  it("lets only admins delete", async () => {
+    const id = sampleCharacters[0].id;
+    role = "contributor";
+    expect((await send("DELETE", `/${id}`)).status).toBe(403);
+    role = "admin";
+    expect((await send("DELETE", `/${id}`)).status).toBe(200);
+    expect((await fetch(`${baseUrl}/${id}`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,230 @@
+import { Router } from "express";
+import type { Character } from "@shared/types";
+import { normalizeChakma } from "../../shared/chakma";
+import {
+  characterPatchSchema,
+  characterSchema,
+  validate,
+} from "../../shared/schemas";
+import type { AuditLog } from "../audit";
+import { requireRole } from "../auth";
+import {
+  getCharacterRevision,
+  parseIfMatch,
+  type CharacterRepository,
+} from "../storage";
+import { validationFailure } from "../validation";
+import { createRecordEditor, recordKind } from "./edits";
+import type { RouteRes } from "./types";
+
+const SAVE_MESSAGE = "chore(characters): sync via developer console";
+
+const characterKind = recordKind<Character>(
+  "Character",
+  "Characters",
+  getCharacterRevision,
+);
+
+const DUPLICATE = {
+  status: 409,
+  body: { success: false, error: "Duplicate Chakma character" },
+};
+
+const DUPLICATE_ID = {
+  status: 409,
+  body: { success: false, error: "A character with this id already exists" },
+};
+
+const sameScript = (a: string, b: string) =>
+  normalizeChakma(a.trim()) === normalizeChakma(b.trim());
+
+// Chakma text is stored normalized, as for words
+function normalizeCharacter<T extends Partial<Character>>(character: T): T {
+  return typeof character.character_script === "string"
+    ? {
+        ...character,
+        character_script: normalizeChakma(character.character_script.trim()),
+      }
+    : character;
+}
+
+export function createCharactersRouter(
+  repository: CharacterRepository,
+  auditLog: AuditLog,
+) {
+  const charactersRouter = Router();
+
+  const { commitEdit, send, sendError } = createRecordEditor(
+    characterKind,
+    {
+      async load() {
+        const { characters, sha } = await repository.load();
+        return { records: characters, sha };
+      },
+      save: (characters, { sha }, alongside) =>
+        repository.save(characters, sha, SAVE_MESSAGE, alongside),
+    },
+    auditLog,
+  );
+
+  charactersRouter.get("/", async (_req, res: RouteRes<"GET /characters">) => {
+    try {
+      const { characters } = await repository.load();
+      res.json({ success: true, data: characters });
+    } catch (e: any) {
+      sendError(res, e, "Failed to load characters");
+    }
+  });
+
+  charactersRouter.get(
+    "/:id",
+    async (req, res: RouteRes<"GET /characters/:id">) => {
+      try {
+        const { characters } = await repository.load();
+        const character = characters.find((c) => c.id === req.params.id);
+        if (!character) return send(res, characterKind.notFound);
+        send(res, {
+          status: 200,
+          body: { success: true, data: character },
+          record: character,
+        });
+      } catch (e: any) {
+        sendError(res, e, "Failed to load character");
+      }
+    },
+  );
+
+  charactersRouter.post(
+    "/",
+    requireRole("contributor"),
+    async (req, res: RouteRes<"POST /characters">) => {
+      try {
+        const parsed = validate(characterSchema, req.body);
+        if (parsed.errors) return send(res, validationFailure(parsed.errors));
+        const input = normalizeCharacter(parsed.data);
+        const outcome = await commitEdit(res, (characters) => {
+          if (
+            characters.some((c) =>
+              sameScript(c.character_script, input.character_script),
+            )
+          ) {
+            return DUPLICATE;
+          }
+          if (input.id && characters.some((c) => c.id === input.id)) {
+            return DUPLICATE_ID;
+          }
+          const now = new Date().toISOString();
+          const character: Character = {
+            id: input.id || `${input.character_type}-${Date.now()}`,
+            character_script: input.character_script,
+            character_type: input.character_type,
+            romanized_name: input.romanized_name,
+            transliteration: input.transliteration || undefined,
+            description: input.description || undefined,
+            audio_pronunciation_url: input.audio_pronunciation_url || undefined,
+            created_at: now,
+            updated_at: now,
+          };
+          return {
+            records: [...characters, character],
+            change: {
+              type: "create",
+              target: "character",
+              before: null,
+              after: character,
+            },
+            status: 201,
+            body: { success: true, data: character },
+            record: character,
+          };
+        });
+        send(res, outcome);
+      } catch (e: any) {
+        sendError(res, e, "Failed to create character");
+      }
+    },
+  );
+
+  charactersRouter.put(
+    "/:id",
+    requireRole("contributor"),
+    async (req, res: RouteRes<"PUT /characters/:id">) => {
+      try {
+        const id = req.params.id;
+        const parsed = validate(characterPatchSchema, req.body);
+        if (parsed.errors) return send(res, validationFailure(parsed.errors));
+        const patch = normalizeCharacter(parsed.data);
+        const ifMatch = parseIfMatch(req.header("If-Match"));
+        const outcome = await commitEdit(res, (characters) => {
+          const index = characters.findIndex((c) => c.id === id);
+          const rejected = characterKind.checkRevision(
+            characters[index],
+            ifMatch,
+          );
+          if (rejected) return rejected;
+          const existing = characters[index];
+          if (
+            patch.character_script &&
+            characters.some(
+              (c, i) =>
+                i !== index &&
+                sameScript(c.character_script, patch.character_script!),
+            )
+          ) {
+            return DUPLICATE;
+          }
+          const updated = characterKind.patch(existing, patch);
+          const final = characters.slice();
+          final[index] = updated;
+          return {
+            records: final,
+            change: {
+              type: "update",
+              target: "character",
+              before: existing,
+              after: updated,
+            },
+            status: 200,
+            body: { success: true, data: updated },
+            record: updated,
+          };
+        });
+        send(res, outcome);
+      } catch (e: any) {
+        sendError(res, e, "Failed to update character");
+      }
+    },
+  );
+
+  charactersRouter.delete(
+    "/:id",
+    requireRole("admin"),
+    async (req, res: RouteRes<"DELETE /characters/:id">) => {
+      try {
+        const id = req.params.id;
+        const ifMatch = parseIfMatch(req.header("If-Match"));
+        const outcome = await commitEdit(res, (characters) => {
+          const existing = characters.find((c) => c.id === id);
+          const rejected = characterKind.checkRevision(existing, ifMatch);
+          if (rejected) return rejected;
+          return {
+            records: characters.filter((c) => c.id !== id),
+            change: {
+              type: "delete",
+              target: "character",
+              before: existing,
+              after: null,
+            },
+            status: 200,
+            body: { success: true, message: "Deleted" },
+          };
+        });
+        send(res, outcome);
+      } catch (e: any) {
+        sendError(res, e, "Failed to delete character");
+      }
+    },
+  );
+
+  return charactersRouter;
+}
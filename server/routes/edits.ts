@@ -0,0 +1,191 @@
+import type { Response } from "express";
+import type { RevisionConflictResponse } from "@shared/types";
+import {
+  createAuditEntry,
+  type AuditEntry,
+  type AuditLog,
+  type ContentChange,
+} from "../audit";
+import { getEditor } from "../auth";
+import { StorageConflictError, toETag } from "../storage";
+import type { RepoFileChange } from "./github";
+
+const MAX_SAVE_ATTEMPTS = 3;
+
+interface StoredRecord {
+  id: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+type IfMatch = string[] | "*" | null;
+
+// Result of applying an edit to a snapshot: either the list to save along
+// with the change to audit, or a response to send without saving. Bulk edits
+// list every change instead. `B` is the route's response body.
+export interface EditOutcome<T, B = object> {
+  records?: T[];
+  change?: ContentChange;
+  changes?: ContentChange[];
+  status: number;
+  body: B;
+  /** Record whose revision is sent back as the ETag */
+  record?: T;
+}
+
+/**
+ * Responses and revision checks for one kind of record, e.g. words. `name`
+ * and `plural` are capitalized, as they start the error messages.
+ */
+export function recordKind<T extends StoredRecord>(
+  name: string,
+  plural: string,
+  getRevision: (record: T) => string,
+) {
+  const notFound = {
+    status: 404,
+    body: { success: false, error: `${name} not found` },
+  };
+
+  function revisionConflict(current: T | null) {
+    return {
+      status: 409,
+      body: {
+        success: false,
+        error: current
+          ? `${name} was changed by someone else`
+          : `${name} was deleted by someone else`,
+        conflict: {
+          current,
+          revision: current ? getRevision(current) : null,
+        },
+      } satisfies RevisionConflictResponse<T>,
+    };
+  }
+
+  // True when an If-Match header is present and names another revision
+  function isStale(ifMatch: IfMatch, record: T): boolean {
+    return Array.isArray(ifMatch) && !ifMatch.includes(getRevision(record));
+  }
+
+  return {
+    name,
+    plural,
+    getRevision,
+    notFound,
+    revisionConflict,
+    isStale,
+    /**
+     * The response refusing an update or delete of `existing`, or null when
+     * it may go ahead. A missing record is a conflict when the client sent
+     * If-Match, since it held a revision that someone else deleted.
+     */
+    checkRevision(existing: T | undefined, ifMatch: IfMatch) {
+      if (!existing) return ifMatch ? revisionConflict(null) : notFound;
+      return isStale(ifMatch, existing) ? revisionConflict(existing) : null;
+    },
+    /** `existing` with `patch` applied; id and timestamps stay the server's */
+    patch(existing: T, patch: Partial<T>): T {
+      return {
+        ...existing,
+        ...patch,
+        id: existing.id,
+        created_at: existing.created_at,
+        updated_at: new Date().toISOString(),
+      };
+    },
+  };
+}
+
+export type RecordKind<T extends StoredRecord> = ReturnType<
+  typeof recordKind<T>
+>;
+
+export interface RecordSnapshot<T> {
+  records: T[];
+  sha: string | null;
+}
+
+/**
+ * Whole-list load and save of the records, as the repositories provide.
+ * `save` gets the snapshot the edit started from, e.g. to carry over what
+ * else the document holds, and the audit files to commit `alongside`.
+ */
+export interface RecordStore<T, S extends RecordSnapshot<T>> {
+  load(): Promise<S>;
+  /** Throws `StorageConflictError` when `loaded.sha` is no longer current */
+  save(records: T[], loaded: S, alongside: RepoFileChange[]): Promise<unknown>;
+}
+
+/**
+ * Load-edit-save cycle shared by the content routers, with the responses
+ * that go with it.
+ */
+export function createRecordEditor<
+  T extends StoredRecord,
+  S extends RecordSnapshot<T>,
+>(kind: RecordKind<T>, store: RecordStore<T, S>, auditLog: AuditLog) {
+  // Loads, edits and saves the list. When another writer saved in between,
+  // the edit is re-run on a fresh snapshot; per-record revision checks live
+  // inside `edit`, so only conflicts on the same record reach the client.
+  // The changes are audited under `res`'s editor: on GitHub the entries are
+  // part of the save's commit, so the edit and its history stand or fall
+  // together; other logs are appended to once the records are saved.
+  async function commitEdit<B>(
+    res: Response<B>,
+    edit: (records: T[]) => EditOutcome<T, NoInfer<B>>,
+  ): Promise<EditOutcome<T, B>> {
+    const editor = getEditor(res)?.username ?? "unknown";
+    for (let attempt = 1; ; attempt++) {
+      const loaded = await store.load();
+      const outcome = edit(loaded.records);
+      if (!outcome.records) return outcome;
+      const entries = (outcome.changes ?? [outcome.change]).map((change) =>
+        createAuditEntry(change, editor),
+      );
+      try {
+        const staged = await auditLog.stage?.(...entries);
+        await store.save(outcome.records, loaded, staged ?? []);
+        if (!staged) await appendEntries(entries);
+        return outcome;
+      } catch (e) {
+        if (
+          !(e instanceof StorageConflictError) ||
+          attempt >= MAX_SAVE_ATTEMPTS
+        )
+          throw e;
+      }
+    }
+  }
+
+  // A separate write after the save, so the records are already saved here:
+  // a failing append is logged instead of turning a successful edit into an
+  // error response, and the log misses that change
+  async function appendEntries(entries: AuditEntry[]) {
+    try {
+      await auditLog.append(...entries);
+    } catch (e) {
+      console.error("Failed to append to audit log", e);
+    }
+  }
+
+  // The body is checked against `res`, typed with the route's RouteResponse
+  function send<B>(res: Response<B>, outcome: EditOutcome<T, NoInfer<B>>) {
+    if (outcome.record) {
+      res.set("ETag", toETag(kind.getRevision(outcome.record)));
+    }
+    res.status(outcome.status).json(outcome.body);
+  }
+
+  function sendError(res: Response, e: any, fallback: string) {
+    if (e instanceof StorageConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: `${kind.plural} are being edited concurrently, please retry`,
+      });
+    }
+    res.status(500).json({ success: false, error: e?.message || fallback });
+  }
+
+  return { commitEdit, send, sendError };
+}
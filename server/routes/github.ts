@@ -11,6 +11,16 @@ interface GitHubFileResponse {
   encoding?: "base64";
 }
 
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "GitHubApiError";
+  }
+}
+
 function getEnv(name: string, fallback?: string): string {
   const value = process.env[name] || fallback;
   if (!value)
@@ -52,13 +62,43 @@ export async function getRepoFile(
   }
   if (!res.ok) {
     const text = await res.text().catch(() => "");
-    throw new Error(text || `GitHub get content failed: ${res.status}`);
+    throw new GitHubApiError(
+      text || `GitHub get content failed: ${res.status}`,
+      res.status,
+    );
   }
   const json = (await res.json()) as GitHubFileResponse;
-  const decoded = json.content
-    ? Buffer.from(json.content, "base64").toString("utf8")
-    : null;
-  return { sha: json.sha || null, content: decoded };
+  let encoded = json.content;
+  // Files over 1 MB come back without content; the blob API still has it
+  if (!encoded && json.size !== 0) {
+    encoded = (await getRepoBlob(json.sha)).content;
+  }
+  if (!encoded && json.size !== 0) {
+    throw new GitHubApiError(
+      `GitHub returned no content for ${path} (sha ${json.sha})`,
+      502,
+    );
+  }
+  return {
+    sha: json.sha || null,
+    content: Buffer.from(encoded || "", "base64").toString("utf8"),
+  };
+}
+
+async function getRepoBlob(sha: string): Promise<{ content?: string }> {
+  const { owner, repo } = getRepoSettings();
+  const res = await fetch(
+    `${GITHUB_API}/repos/${owner}/${repo}/git/blobs/${sha}`,
+    { headers: getAuthHeaders() },
+  );
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new GitHubApiError(
+      text || `GitHub get blob failed: ${res.status}`,
+      res.status,
+    );
+  }
+  return (await res.json()) as { content?: string };
 }
 
 export async function putRepoFile(
@@ -87,12 +127,140 @@ export async function putRepoFile(
   );
   if (!res.ok) {
     const text = await res.text().catch(() => "");
-    throw new Error(text || `GitHub put content failed: ${res.status}`);
+    throw new GitHubApiError(
+      text || `GitHub put content failed: ${res.status}`,
+      res.status,
+    );
   }
   const json = (await res.json()) as GitHubFileResponse;
   return { sha: json.sha };
 }
 
+/** A file written by `commitRepoFiles` */
+export interface RepoFileChange {
+  path: string;
+  content: string;
+  /** Blob the file must still be at the branch head; null if it must not exist */
+  sha: string | null;
+}
+
+// Git Data API call relative to the repository, throwing GitHubApiError
+async function gitRequest<T>(
+  method: string,
+  path: string,
+  body?: object,
+): Promise<T> {
+  const { owner, repo } = getRepoSettings();
+  const res = await fetch(`${GITHUB_API}/repos/${owner}/${repo}/${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...getAuthHeaders(),
+    },
+    body: body && JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new GitHubApiError(
+      text || `GitHub ${method} ${path} failed: ${res.status}`,
+      res.status,
+    );
+  }
+  return (await res.json()) as T;
+}
+
+// Blob sha of `path` at `ref`, or null when it does not exist there
+async function getRepoFileSha(path: string, ref: string) {
+  const { owner, repo } = getRepoSettings();
+  const res = await fetch(
+    `${GITHUB_API}/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref)}`,
+    { headers: getAuthHeaders() },
+  );
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new GitHubApiError(
+      text || `GitHub get content failed: ${res.status}`,
+      res.status,
+    );
+  }
+  return ((await res.json()) as GitHubFileResponse).sha;
+}
+
+/**
+ * Writes several files in one commit on the branch through the Git Data API.
+ * Throws a 409 GitHubApiError when a file is no longer at its expected `sha`
+ * or the branch moved on while the commit was being built.
+ */
+export async function commitRepoFiles(
+  files: RepoFileChange[],
+  message: string,
+): Promise<string> {
+  const { branch } = getRepoSettings();
+  const head = await gitRequest<{ object: { sha: string } }>(
+    "GET",
+    `git/ref/heads/${branch}`,
+  );
+  const parent = head.object.sha;
+  for (const file of files) {
+    if ((await getRepoFileSha(file.path, parent)) !== file.sha) {
+      throw new GitHubApiError(`${file.path} was changed meanwhile`, 409);
+    }
+  }
+  const { tree: base } = await gitRequest<{ tree: { sha: string } }>(
+    "GET",
+    `git/commits/${parent}`,
+  );
+  const tree = await gitRequest<{ sha: string }>("POST", "git/trees", {
+    base_tree: base.sha,
+    tree: files.map(({ path, content }) => ({
+      path,
+      mode: "100644",
+      type: "blob",
+      content,
+    })),
+  });
+  const commit = await gitRequest<{ sha: string }>("POST", "git/commits", {
+    message,
+    tree: tree.sha,
+    parents: [parent],
+  });
+  try {
+    await gitRequest("PATCH", `git/refs/heads/${branch}`, {
+      sha: commit.sha,
+      force: false,
+    });
+  } catch (e) {
+    // 422: not a fast-forward, another commit landed after `parent`
+    if (e instanceof GitHubApiError && e.status === 422) {
+      throw new GitHubApiError(e.message, 409);
+    }
+    throw e;
+  }
+  return commit.sha;
+}
+
+/** Names of the files directly in `path`; empty when it does not exist */
+export async function listRepoDirectory(path: string): Promise<string[]> {
+  const { owner, repo, branch } = getRepoSettings();
+  const res = await fetch(
+    `${GITHUB_API}/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}?ref=${encodeURIComponent(branch)}`,
+    { headers: getAuthHeaders() },
+  );
+  if (res.status === 404) return [];
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new GitHubApiError(
+      text || `GitHub list directory failed: ${res.status}`,
+      res.status,
+    );
+  }
+  const json = (await res.json()) as (GitHubFileResponse & { type: string })[];
+  return Array.isArray(json)
+    ? json.filter((item) => item.type === "file").map((item) => item.name)
+    : [];
+}
+
 export function getRawFileUrl(path: string): string {
   const { owner, repo, branch } = getRepoSettings();
   return `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${path}`;
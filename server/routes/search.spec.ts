@@ -0,0 +1,64 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { sampleWords } from "../../shared/sampleData";
+import { createMemoryWordRepository } from "../storage";
+import { createSearchRouter } from "./search";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(
+    "/api/search",
+    createSearchRouter(createMemoryWordRepository(sampleWords)),
+  );
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/search`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const search = async (params: string) => {
+  const res = await fetch(`${baseUrl}?${params}`);
+  return { status: res.status, body: await res.json() };
+};
+
+describe("GET /api/search", () => {
+  it("returns ranked results with matched fields", async () => {
+    const { status, body } = await search("q=water");
+    expect(status).toBe(200);
+    const [first] = body.data.items;
+    expect(first.word.english_translation).toBe("water");
+    expect(first.matched_fields).toContain("english_translation");
+    expect(first.relevance_score).toBeGreaterThan(0);
+  });
+
+  it("restricts matching to the requested fields", async () => {
+    const { body } = await search("q=water&fields=romanized_pronunciation");
+    expect(body.data.total_count).toBe(0);
+  });
+
+  it("paginates", async () => {
+    const { body } = await search("q=a&per_page=2&page=2");
+    expect(body.data).toMatchObject({ page: 2, per_page: 2, has_prev: true });
+    expect(body.data.items.length).toBeLessThanOrEqual(2);
+    expect(body.data.has_next).toBe(body.data.total_count > 4);
+  });
+
+  it("suggests a correction for misspelled romanizations", async () => {
+    const { body } = await search("q=paani");
+    expect(body.data.suggestion).toBe("pani");
+    expect(body.data.items[0].word.romanized_pronunciation).toBe("pani");
+  });
+
+  it("rejects unknown fields and bad paging", async () => {
+    expect((await search("q=a&fields=etymology")).status).toBe(400);
+    expect((await search("q=a&page=0")).status).toBe(400);
+  });
+});
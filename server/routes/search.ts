@@ -0,0 +1,73 @@
+import { Router } from "express";
+import type { ApiResponse, SearchOptions, SearchResponse } from "@shared/types";
+import {
+  DEFAULT_PER_PAGE,
+  MAX_PER_PAGE,
+  SEARCH_FIELDS,
+  isSearchField,
+  paginate,
+  searchDictionary,
+  suggestQuery,
+} from "../../shared/search";
+import type { WordRepository } from "../storage";
+import type { RouteRes } from "./types";
+
+function parsePositiveInt(value: unknown, fallback: number): number | null {
+  if (value === undefined || value === "") return fallback;
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+export function createSearchRouter(repository: WordRepository) {
+  const searchRouter = Router();
+
+  // GET /api/search?q=&fields=&page=&per_page=&exact=&fuzzy=
+  searchRouter.get("/", async (req, res: RouteRes<"GET /search">) => {
+    const q = typeof req.query.q === "string" ? req.query.q : "";
+    const fields =
+      typeof req.query.fields === "string" && req.query.fields
+        ? req.query.fields.split(",").map((f) => f.trim())
+        : [];
+    const invalid = fields.filter((f) => !isSearchField(f));
+    if (invalid.length) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown search fields: ${invalid.join(", ")}. Expected: ${SEARCH_FIELDS.join(", ")}`,
+      });
+    }
+    const page = parsePositiveInt(req.query.page, 1);
+    const perPage = parsePositiveInt(req.query.per_page, DEFAULT_PER_PAGE);
+    if (!page || !perPage) {
+      return res.status(400).json({
+        success: false,
+        error: "page and per_page must be positive integers",
+      });
+    }
+
+    try {
+      const { words } = await repository.load();
+      const options: SearchOptions = {
+        query: q,
+        search_fields: fields as SearchOptions["search_fields"],
+        exact_match: req.query.exact === "true",
+        fuzzy: req.query.fuzzy !== "false",
+      };
+      const results = searchDictionary(words, options);
+      const suggestion = suggestQuery(words, q, results);
+      const body: ApiResponse<SearchResponse> = {
+        success: true,
+        data: {
+          ...paginate(results, page, Math.min(perPage, MAX_PER_PAGE)),
+          ...(suggestion ? { suggestion } : {}),
+        },
+      };
+      res.json(body);
+    } catch (e: any) {
+      res
+        .status(500)
+        .json({ success: false, error: e?.message || "Search failed" });
+    }
+  });
+
+  return searchRouter;
+}
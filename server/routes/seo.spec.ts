@@ -0,0 +1,81 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { sampleWords } from "../../shared/sampleData";
+import { createMemoryWordRepository } from "../storage";
+import { createSeoRouter } from "./seo";
+
+const TEMPLATE = `<!doctype html>
+<html>
+  <head>
+    <title>
+      ChakmaLex
+    </title>
+    <meta
+      name="description"
+      content="Default description"
+    />
+    <meta property="og:title" content="Default" />
+    <link rel="manifest" href="/manifest.json" />
+  </head>
+  <body><div id="root"></div></body>
+</html>`;
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(
+    createSeoRouter(createMemoryWordRepository(sampleWords), {
+      loadTemplate: async () => TEMPLATE,
+      siteUrl: "https://example.org/",
+    }),
+  );
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("GET /word/:id", () => {
+  it("replaces the default tags with the word's", async () => {
+    const word = sampleWords[0];
+    const res = await fetch(`${baseUrl}/word/${word.id}`);
+    const html = await res.text();
+    expect(res.status).toBe(200);
+    expect(html).toContain(
+      `<title>${word.chakma_word_script} (${word.romanized_pronunciation}) – ${word.english_translation} | ChakmaLex</title>`,
+    );
+    expect(html).toContain(
+      `<link rel="canonical" href="https://example.org/word/${word.id}" />`,
+    );
+    expect(html).toContain('property="og:description"');
+    expect(html).toContain('"@type":"DefinedTerm"');
+    expect(html).not.toContain("Default");
+    expect(html).toContain('<link rel="manifest"');
+    expect(html).toContain('<div id="root">');
+  });
+
+  it("serves the plain app with a 404 for unknown words", async () => {
+    const res = await fetch(`${baseUrl}/word/missing`);
+    expect(res.status).toBe(404);
+    expect(await res.text()).toBe(TEMPLATE);
+  });
+});
+
+describe("GET /sitemap.xml", () => {
+  it("lists the static pages and every word", async () => {
+    const res = await fetch(`${baseUrl}/sitemap.xml`);
+    const xml = await res.text();
+    expect(res.headers.get("content-type")).toContain("application/xml");
+    expect(xml).toContain("<loc>https://example.org/</loc>");
+    for (const word of sampleWords) {
+      expect(xml).toContain(`<loc>https://example.org/word/${word.id}</loc>`);
+    }
+  });
+});
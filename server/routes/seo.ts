@@ -0,0 +1,215 @@
+import { Router, type Request } from "express";
+import type { Word } from "@shared/types";
+import type { WordRepository } from "../storage";
+
+export interface SeoOptions {
+  /**
+   * Returns the built SPA's index.html. Word pages are only pre-rendered
+   * when it is set; otherwise /word/:id falls through to the SPA.
+   */
+  loadTemplate?: () => Promise<string>;
+  /** Public origin for absolute URLs; defaults to SITE_URL, Netlify's URL, then the request */
+  siteUrl?: string;
+}
+
+// Pages that exist without any data, as listed in the old static sitemap
+const STATIC_PAGES = [
+  { path: "/", changefreq: "weekly", priority: "1.0" },
+  { path: "/characters", changefreq: "weekly", priority: "0.9" },
+  { path: "/quiz", changefreq: "monthly", priority: "0.8" },
+  { path: "/about", changefreq: "monthly", priority: "0.5" },
+];
+
+const DESCRIPTION_LENGTH = 160;
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const wordPath = (word: Word) => `/word/${encodeURIComponent(word.id)}`;
+
+function truncate(text: string, length: number): string {
+  const chars = [...text];
+  if (chars.length <= length) return text;
+  return (
+    chars
+      .slice(0, length - 1)
+      .join("")
+      .trimEnd() + "…"
+  );
+}
+
+function describeWord(word: Word): string {
+  const parts = [
+    `${word.chakma_word_script} (${word.romanized_pronunciation}) means "${word.english_translation}" in Chakma.`,
+    word.example_sentence,
+  ];
+  return truncate(parts.filter(Boolean).join(" "), DESCRIPTION_LENGTH);
+}
+
+// Tags the word page replaces; anything else in the template is kept
+const REPLACED_TAGS = [
+  /<title>[\s\S]*?<\/title>\s*/g,
+  /<meta\s[^>]*?(?:name|property)="(?:title|description|og:[^"]*|twitter:[^"]*)"[^>]*>\s*/g,
+  /<link\s[^>]*?rel="canonical"[^>]*>\s*/g,
+];
+
+/**
+ * Fills the SPA shell with the word's title, description, canonical link,
+ * OpenGraph and Twitter tags and schema.org data, so crawlers and link
+ * previews see the entry without running the app.
+ */
+export function renderWordPage(
+  template: string,
+  word: Word,
+  siteUrl: string,
+): string {
+  const url = `${siteUrl}${wordPath(word)}`;
+  const title = `${word.chakma_word_script} (${word.romanized_pronunciation}) – ${word.english_translation} | ChakmaLex`;
+  const description = describeWord(word);
+  const image = `${siteUrl}/icons/icon-512x512.png`;
+  const structuredData = {
+    "@context": "https://schema.org",
+    "@type": "DefinedTerm",
+    name: word.chakma_word_script,
+    alternateName: word.romanized_pronunciation,
+    description: word.english_translation,
+    inLanguage: "ccp",
+    url,
+    inDefinedTermSet: {
+      "@type": "DefinedTermSet",
+      name: "ChakmaLex Digital Dictionary",
+      url: `${siteUrl}/`,
+    },
+  };
+
+  const meta = (attr: "name" | "property", key: string, value: string) =>
+    `<meta ${attr}="${key}" content="${escapeHtml(value)}" />`;
+  const head = [
+    `<title>${escapeHtml(title)}</title>`,
+    meta("name", "title", title),
+    meta("name", "description", description),
+    `<link rel="canonical" href="${escapeHtml(url)}" />`,
+    meta("property", "og:type", "article"),
+    meta("property", "og:url", url),
+    meta("property", "og:title", title),
+    meta("property", "og:description", description),
+    meta("property", "og:image", image),
+    meta("property", "og:site_name", "ChakmaLex Dictionary"),
+    meta("property", "twitter:card", "summary"),
+    meta("property", "twitter:url", url),
+    meta("property", "twitter:title", title),
+    meta("property", "twitter:description", description),
+    meta("property", "twitter:image", image),
+    // "<" is escaped so no value can close the script element
+    `<script type="application/ld+json">${JSON.stringify(
+      structuredData,
+    ).replace(/</g, "\\u003c")}</script>`,
+  ].join("\n    ");
+
+  const stripped = REPLACED_TAGS.reduce(
+    (html, pattern) => html.replace(pattern, ""),
+    template,
+  );
+  return stripped.replace("</head>", `    ${head}\n  </head>`);
+}
+
+/** sitemap.xml with the static pages and one entry per word */
+export function renderSitemap(words: Word[], siteUrl: string): string {
+  const entry = (
+    path: string,
+    fields: { lastmod?: string; changefreq: string; priority: string },
+  ) =>
+    [
+      "  <url>",
+      `    <loc>${escapeHtml(`${siteUrl}${path}`)}</loc>`,
+      fields.lastmod ? `    <lastmod>${fields.lastmod}</lastmod>` : null,
+      `    <changefreq>${fields.changefreq}</changefreq>`,
+      `    <priority>${fields.priority}</priority>`,
+      "  </url>",
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+  const urls = [
+    ...STATIC_PAGES.map(({ path, ...fields }) => entry(path, fields)),
+    ...words.map((word) =>
+      entry(wordPath(word), {
+        lastmod: (word.updated_at || word.created_at)?.slice(0, 10),
+        changefreq: "monthly",
+        priority: "0.7",
+      }),
+    ),
+  ];
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+}
+
+function resolveSiteUrl(req: Request, configured?: string): string {
+  const url =
+    configured ||
+    process.env.SITE_URL ||
+    process.env.URL ||
+    `${req.protocol}://${req.get("host")}`;
+  return url.replace(/\/+$/, "");
+}
+
+export function createSeoRouter(
+  repository: WordRepository,
+  options: SeoOptions = {},
+) {
+  const seoRouter = Router();
+
+  seoRouter.get("/sitemap.xml", async (req, res) => {
+    try {
+      const { words } = await repository.load();
+      res
+        .type("application/xml")
+        .set("Cache-Control", "public, max-age=3600")
+        .send(renderSitemap(words, resolveSiteUrl(req, options.siteUrl)));
+    } catch (e: any) {
+      res
+        .status(500)
+        .type("text/plain")
+        .send(e?.message || "Sitemap failed");
+    }
+  });
+
+  const { loadTemplate } = options;
+  if (loadTemplate) {
+    seoRouter.get("/word/:id", async (req, res, next) => {
+      try {
+        const [template, { words }] = await Promise.all([
+          loadTemplate(),
+          repository.load(),
+        ]);
+        const word = words.find((w) => w.id === req.params.id);
+        // Unknown words still get the app, which shows its own not-found view
+        if (!word) return res.status(404).type("html").send(template);
+        res
+          .type("html")
+          .set("Cache-Control", "public, max-age=300")
+          .send(
+            renderWordPage(
+              template,
+              word,
+              resolveSiteUrl(req, options.siteUrl),
+            ),
+          );
+      } catch (e) {
+        next(e);
+      }
+    });
+  }
+
+  return seoRouter;
+}
@@ -0,0 +1,5 @@
+import type { Response } from "express";
+import type { ApiRoute, RouteResponse } from "@shared/api";
+
+/** Response of an /api route; its JSON body is checked against `ApiRoutes` */
+export type RouteRes<R extends ApiRoute> = Response<RouteResponse<R>>;
@@ -0,0 +1,64 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { checkUploadName, uploadsRouter } from "./uploads";
+
+let server: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+  const app = express();
+  app.use(express.json());
+  // Stands in for protectWrites: every request acts as a contributor
+  app.use((_req, res, next) => {
+    res.locals.editor = {
+      username: "tester",
+      role: "contributor",
+      via: "token",
+    };
+    next();
+  });
+  app.use("/api/upload", uploadsRouter);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/upload`;
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("upload file names", () => {
+  it("rejects names that leave the media folder before touching GitHub", async () => {
+    const github = vi.fn();
+    const realFetch = globalThis.fetch;
+    vi.stubGlobal("fetch", (url: string, init?: RequestInit) =>
+      url.startsWith(baseUrl) ? realFetch(url, init) : github(url, init),
+    );
+    for (const fileName of [
+      "../../.github/workflows/x.yml",
+      "..\\data\\audit-log.json",
+      "../../data/characters.json",
+      "..",
+    ]) {
+      const res = await fetch(`${baseUrl}/audio`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fileName, contentBase64: "AAAA" }),
+      });
+      expect(res.status).toBe(400);
+      expect((await res.json()).success).toBe(false);
+    }
+    expect(github).not.toHaveBeenCalled();
+  });
+
+  it("accepts a plain name with a media extension of the kind", () => {
+    expect(checkUploadName("audio", "1700000000-ado.mp3")).toBeNull();
+    expect(checkUploadName("image", "photo_1.JPG")).toBeNull();
+    expect(checkUploadName("audio", "photo.png")).toMatch(/must end in/);
+    expect(checkUploadName("image", ".hidden.png")).not.toBeNull();
+    expect(checkUploadName("image", "noextension")).not.toBeNull();
+  });
+});
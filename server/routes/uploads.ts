@@ -1,9 +1,34 @@
 import { Router } from 'express';
 import { getRepoFile, putRepoFile, getRawFileUrl, triggerNetlifyBuildIfConfigured } from './github';
+import { getEditor, requireRole } from '../auth';
+import { hasRole } from '../../shared/roles';
+import type { RouteRes } from './types';
+
+// Media extensions accepted per kind, lower case
+const EXTENSIONS = {
+  audio: ['mp3', 'm4a', 'aac', 'ogg', 'oga', 'opus', 'wav', 'webm', 'flac'],
+  image: ['png', 'jpg', 'jpeg', 'gif', 'webp', 'avif'],
+};
+
+/**
+ * Why `fileName` cannot be stored under the kind's folder, or null when it
+ * can. Names are a single path segment, so an upload can never reach files
+ * outside the media folders (workflows, functions, data files).
+ */
+export function checkUploadName(kind: 'audio' | 'image', fileName: string): string | null {
+  if (!/^[A-Za-z0-9_-][A-Za-z0-9._-]*$/.test(fileName)) {
+    return 'fileName may only contain letters, digits, ".", "_" and "-", and may not start with "."';
+  }
+  const extension = fileName.split('.').pop()!.toLowerCase();
+  if (!fileName.includes('.') || !EXTENSIONS[kind].includes(extension)) {
+    return `fileName must end in one of: ${EXTENSIONS[kind].map((e) => `.${e}`).join(', ')}`;
+  }
+  return null;
+}
 
 export const uploadsRouter = Router();
 
-uploadsRouter.post('/:kind', async (req, res) => {
+uploadsRouter.post('/:kind', requireRole('contributor'), async (req, res: RouteRes<'POST /upload/:kind'>) => {
   try {
     const kind = req.params.kind as 'audio' | 'image';
     if (!['audio', 'image'].includes(kind)) {
@@ -13,6 +38,10 @@ uploadsRouter.post('/:kind', async (req, res) => {
     if (!fileName || !contentBase64) {
       return res.status(400).json({ success: false, error: 'fileName and contentBase64 required' });
     }
+    const invalidName = checkUploadName(kind, fileName);
+    if (invalidName) {
+      return res.status(400).json({ success: false, error: invalidName });
+    }
     const folder = kind === 'audio' ? (process.env.AUDIO_FOLDER_PATH || 'assets/audio') : (process.env.IMAGE_FOLDER_PATH || 'assets/images');
     const path = `${folder}/${fileName}`;
 
@@ -22,6 +51,10 @@ uploadsRouter.post('/:kind', async (req, res) => {
     // Ensure parent folder file exists or not needed; GitHub API can create new file directly
     // Create/Update file
     const existing = await getRepoFile(path);
+    // Anyone may add files; replacing one that words may already use needs a reviewer
+    if (existing.sha && !hasRole(getEditor(res)?.role, 'reviewer')) {
+      return res.status(403).json({ success: false, error: 'Only reviewers can replace existing files' });
+    }
     const resPut = await putRepoFile(path, buffer.toString('base64'), `feat(upload): add ${kind} ${fileName}`, existing.sha || undefined);
 
     await triggerNetlifyBuildIfConfigured();
@@ -0,0 +1,661 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { EditorRole } from "../../shared/roles";
+import { sampleWords } from "../../shared/sampleData";
+import {
+  createGitHubAuditLog,
+  createMemoryAuditLog,
+  type AuditLog,
+} from "../audit";
+import {
+  createGitHubWordRepository,
+  createMemoryWordRepository,
+  type WordRepository,
+} from "../storage";
+import { createWordsRouter } from "./words";
+
+let server: Server;
+let baseUrl: string;
+let role: EditorRole;
+let auditLog: AuditLog;
+
+async function startServer(repository: WordRepository, log: AuditLog) {
+  auditLog = log;
+  const app = express();
+  app.use(express.json());
+  // Stands in for protectWrites: every request acts as an editor of `role`
+  app.use((_req, res, next) => {
+    res.locals.editor = { username: "tester", role, via: "token" };
+    next();
+  });
+  app.use("/api/words", createWordsRouter(repository, auditLog));
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/words`;
+}
+
+beforeEach(async () => {
+  role = "admin";
+  await startServer(
+    createMemoryWordRepository(sampleWords),
+    createMemoryAuditLog(),
+  );
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function put(id: string, body: object, etag?: string) {
+  return fetch(`${baseUrl}/${id}`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      ...(etag ? { "If-Match": etag } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("word revisions", () => {
+  it("returns an ETag that changes after each write", async () => {
+    const res = await fetch(`${baseUrl}/1`);
+    const etag = res.headers.get("ETag")!;
+    expect(etag).toMatch(/^"[0-9a-f]+"$/);
+
+    const updated = await put("1", { etymology: "edited" }, etag);
+    expect(updated.status).toBe(200);
+    expect(updated.headers.get("ETag")).not.toBe(etag);
+  });
+
+  it("rejects a stale If-Match with the current server version", async () => {
+    const etag = (await fetch(`${baseUrl}/1`)).headers.get("ETag")!;
+    await put("1", { etymology: "first editor" }, etag);
+
+    const stale = await put("1", { etymology: "second editor" }, etag);
+    expect(stale.status).toBe(409);
+    const body = await stale.json();
+    expect(body.success).toBe(false);
+    expect(body.conflict.current.etymology).toBe("first editor");
+    expect(`"${body.conflict.revision}"`).toBe(
+      (await fetch(`${baseUrl}/1`)).headers.get("ETag"),
+    );
+  });
+
+  it("keeps unconditional updates working", async () => {
+    const res = await put("2", { english_translation: "home" });
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.english_translation).toBe("home");
+  });
+
+  it("reports a conflict when the word was deleted meanwhile", async () => {
+    const etag = (await fetch(`${baseUrl}/3`)).headers.get("ETag")!;
+    await fetch(`${baseUrl}/3`, { method: "DELETE" });
+
+    const res = await put("3", { etymology: "late edit" }, etag);
+    expect(res.status).toBe(409);
+    expect((await res.json()).conflict).toEqual({
+      current: null,
+      revision: null,
+    });
+
+    const late = await fetch(`${baseUrl}/3`, {
+      method: "DELETE",
+      headers: { "If-Match": etag },
+    });
+    expect(late.status).toBe(409);
+    expect((await late.json()).conflict.current).toBeNull();
+    // Without If-Match there is no revision to conflict with
+    expect((await fetch(`${baseUrl}/3`, { method: "DELETE" })).status).toBe(
+      404,
+    );
+  });
+});
+
+describe("word roles", () => {
+  it("lets contributors edit but not verify or delete", async () => {
+    role = "contributor";
+    expect((await put("4", { is_verified: false })).status).toBe(403);
+    expect((await put("4", { is_verified: true })).status).toBe(200);
+    expect((await put("4", { etymology: "contributed" })).status).toBe(200);
+    expect((await put("4", { is_verified: true })).status).toBe(403);
+
+    const del = await fetch(`${baseUrl}/4`, { method: "DELETE" });
+    expect(del.status).toBe(403);
+  });
+
+  it("unverifies a verified word when a contributor changes its content", async () => {
+    role = "contributor";
+    const res = await put("5", {
+      english_translation: "changed",
+      is_verified: true,
+    });
+    expect((await res.json()).data.is_verified).toBe(false);
+
+    role = "reviewer";
+    const reviewed = await put("6", { english_translation: "checked" });
+    expect((await reviewed.json()).data.is_verified).toBe(true);
+  });
+
+  it("lets reviewers verify but not delete", async () => {
+    role = "reviewer";
+    expect((await put("4", { is_verified: false })).status).toBe(200);
+    expect((await fetch(`${baseUrl}/4`, { method: "DELETE" })).status).toBe(
+      403,
+    );
+  });
+});
+
+describe("word audit trail", () => {
+  it("records each change with its editor and a before/after diff", async () => {
+    await put("1", { etymology: "edited" });
+    await fetch(`${baseUrl}/1`, { method: "DELETE" });
+    await put("2", { english_translation: "rejected" }, '"stale"');
+
+    const entries = await auditLog.list();
+    expect(entries.map((e) => [e.type, e.target_id])).toEqual([
+      ["update", "1"],
+      ["delete", "1"],
+    ]);
+    expect(entries[0]).toMatchObject({
+      target: "word",
+      performed_by: "tester",
+      changed_fields: ["etymology"],
+      after: { etymology: "edited" },
+    });
+    expect(entries[1].after).toBeNull();
+  });
+});
+
+// On GitHub the word and its audit entry are one commit, built with the Git
+// Data API: the stub keeps the branch's files and applies each commit's tree
+describe("word audit trail on GitHub", () => {
+  const WORDS = "data/words.json";
+  const AUDIT = "data/audit-log";
+  let files: Map<string, { content: string; sha: string }>;
+  let head: string;
+  let commits: string[][];
+  let auditDown: boolean;
+  let interloper: boolean;
+
+  const auditFiles = () =>
+    [...files.keys()].filter((path) => path.startsWith(`${AUDIT}/`));
+
+  beforeEach(async () => {
+    files = new Map([
+      [WORDS, { content: JSON.stringify(sampleWords), sha: "w0" }],
+    ]);
+    head = "c0";
+    commits = [];
+    auditDown = false;
+    interloper = false;
+    const trees = new Map<string, { path: string; content: string }[]>();
+    const pending = new Map<string, { parent: string; tree: string }>();
+    vi.stubEnv("GITHUB_TOKEN", "token");
+    vi.stubEnv("GITHUB_OWNER", "owner");
+    vi.stubEnv("GITHUB_REPO", "repo");
+    const realFetch = globalThis.fetch;
+    vi.stubGlobal("fetch", async (url: string, init?: RequestInit) => {
+      if (!url.startsWith("https://api.github.com/")) {
+        return realFetch(url, init);
+      }
+      const { pathname } = new URL(url);
+      const body = init?.body ? JSON.parse(init.body as string) : null;
+      if (pathname.includes("/contents/")) {
+        const path = decodeURIComponent(pathname.split("/contents/")[1]);
+        if (path.startsWith(AUDIT) && auditDown) {
+          return new Response("Service Unavailable", { status: 503 });
+        }
+        if (path === AUDIT) {
+          return Response.json(
+            auditFiles().map((file) => ({
+              type: "file",
+              name: file.slice(AUDIT.length + 1),
+            })),
+          );
+        }
+        const file = files.get(path);
+        if (!file) return new Response("Not Found", { status: 404 });
+        return Response.json({
+          sha: file.sha,
+          size: file.content.length,
+          content: Buffer.from(file.content).toString("base64"),
+        });
+      }
+      if (pathname.endsWith("/git/ref/heads/main")) {
+        return Response.json({ object: { sha: head } });
+      }
+      if (pathname.includes("/git/commits/")) {
+        return Response.json({ tree: { sha: `tree-${head}` } });
+      }
+      if (pathname.endsWith("/git/trees")) {
+        const sha = `tree-${trees.size + 1}`;
+        trees.set(sha, body.tree);
+        return Response.json({ sha });
+      }
+      if (pathname.endsWith("/git/commits")) {
+        const sha = `pending-${pending.size + 1}`;
+        pending.set(sha, { parent: body.parents[0], tree: body.tree });
+        return Response.json({ sha });
+      }
+      if (pathname.endsWith("/git/refs/heads/main")) {
+        const commit = pending.get(body.sha);
+        if (interloper) {
+          // Another writer's commit lands just before this ref update
+          interloper = false;
+          head = "elsewhere";
+          files.set(WORDS, { ...files.get(WORDS)!, sha: "w1" });
+        }
+        if (commit.parent !== head) return new Response("", { status: 422 });
+        head = `c${commits.length + 1}`;
+        const tree = trees.get(commit.tree);
+        for (const { path, content } of tree) {
+          files.set(path, { content, sha: `${head}:${path}` });
+        }
+        commits.push(tree.map(({ path }) => path));
+        return Response.json({ object: { sha: head } });
+      }
+      return new Response("Not Found", { status: 404 });
+    });
+    await new Promise((resolve) => server.close(resolve));
+    await startServer(
+      createGitHubWordRepository(WORDS),
+      createGitHubAuditLog(AUDIT),
+    );
+  });
+
+  it("commits the word and its audit entry together", async () => {
+    expect((await put("1", { etymology: "edited" })).status).toBe(200);
+    const [shard] = auditFiles();
+    expect(shard).toMatch(/^data\/audit-log\/\d{4}-\d{2}\.jsonl$/);
+    expect(commits).toEqual([[WORDS, shard]]);
+    const [entry] = files
+      .get(shard)!
+      .content.trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(entry).toMatchObject({
+      target_id: "1",
+      after: { etymology: "edited" },
+    });
+  });
+
+  it("appends to the month's file without rewriting earlier entries", async () => {
+    await put("1", { etymology: "first" });
+    await put("1", { etymology: "second" });
+    expect(commits).toHaveLength(2);
+    expect((await auditLog.list()).map((e) => e.after)).toMatchObject([
+      { etymology: "first" },
+      { etymology: "second" },
+    ]);
+  });
+
+  it("saves neither the word nor the entry when the log cannot be read", async () => {
+    auditDown = true;
+
+    expect((await put("1", { etymology: "edited" })).status).toBe(500);
+    expect(commits).toEqual([]);
+    auditDown = false;
+    expect(
+      (await (await fetch(`${baseUrl}/1`)).json()).data.etymology,
+    ).not.toBe("edited");
+  });
+
+  it("retries on a fresh snapshot when the branch moved on", async () => {
+    interloper = true;
+
+    expect((await put("1", { etymology: "edited" })).status).toBe(200);
+    expect(commits).toHaveLength(1);
+  });
+});
+
+describe("word revert", () => {
+  const revert = (id: string, body: object) =>
+    fetch(`${baseUrl}/${id}/revert`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  it("restores the version before a bad edit", async () => {
+    const original = (await (await fetch(`${baseUrl}/1`)).json()).data;
+    await put("1", { etymology: "", synonyms: [] });
+    const [entry] = await auditLog.list();
+
+    const res = await revert("1", { entry_id: entry.id, version: "before" });
+    expect(res.status).toBe(200);
+    const restored = (await res.json()).data;
+    expect(restored.etymology).toBe(original.etymology);
+    expect(restored.synonyms).toEqual(original.synonyms);
+    expect((await auditLog.list()).at(-1)).toMatchObject({
+      type: "update",
+      changed_fields: expect.arrayContaining(["etymology", "synonyms"]),
+    });
+  });
+
+  it("brings back a deleted word", async () => {
+    await fetch(`${baseUrl}/2`, { method: "DELETE" });
+    const [entry] = await auditLog.list();
+
+    expect((await revert("2", { entry_id: entry.id })).status).toBe(200);
+    expect((await fetch(`${baseUrl}/2`)).status).toBe(200);
+  });
+
+  it("rejects unknown entries", async () => {
+    expect((await revert("1", {})).status).toBe(400);
+    expect((await revert("1", { entry_id: "nope" })).status).toBe(404);
+  });
+});
+
+describe("Chakma normalization on write", () => {
+  it("stores the normalized spelling", async () => {
+    const res = await fetch(baseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        // Anusvara typed before the vowel sign
+        chakma_word_script: "\u{11107}\u{11101}\u{11128}",
+        romanized_pronunciation: "king",
+        english_translation: "test",
+      }),
+    });
+    expect((await res.json()).data.chakma_word_script).toBe(
+      "\u{11107}\u{11128}\u{11101}",
+    );
+  });
+});
+
+describe("word payload validation", () => {
+  it("rejects unknown keys, bad related terms and non-URL media per field", async () => {
+    const res = await put("1", {
+      etymology: "ok",
+      owner: "me",
+      synonyms: [{ term: "ghar", language: "bengali" }],
+      explanation_media: { type: "url", value: "javascript:alert(1)" },
+    });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(Object.keys(body.field_errors).sort()).toEqual([
+      "explanation_media.value",
+      "owner",
+      "synonyms.0.language",
+    ]);
+    expect(body.error).toContain("synonyms.0.language");
+    expect(
+      (await (await fetch(`${baseUrl}/1`)).json()).data.etymology,
+    ).not.toBe("ok");
+  });
+
+  it("names missing required fields on create", async () => {
+    const res = await fetch(baseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ chakma_word_script: "\u{11107}" }),
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).field_errors).toEqual({
+      romanized_pronunciation: "Romanized pronunciation is required",
+      english_translation: "English translation is required",
+    });
+  });
+});
+
+describe("server-owned word fields", () => {
+  it("rejects a create that reuses an id and ignores timestamps in patches", async () => {
+    const taken = await fetch(baseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        id: "1",
+        chakma_word_script: "\u{1111D}\u{11134}",
+        romanized_pronunciation: "bo",
+        english_translation: "new",
+      }),
+    });
+    expect(taken.status).toBe(409);
+    expect((await taken.json()).error).toMatch(/id already exists/);
+
+    const before = (await (await fetch(`${baseUrl}/1`)).json()).data;
+    const res = await put("1", {
+      id: "99",
+      created_at: "2999-01-01T00:00:00Z",
+      updated_at: "2999-01-01T00:00:00Z",
+      etymology: "edited",
+    });
+    expect(res.status).toBe(200);
+    const { data } = await res.json();
+    expect(data.id).toBe("1");
+    expect(data.created_at).toBe(before.created_at);
+    expect(Date.parse(data.updated_at)).toBeLessThanOrEqual(Date.now());
+  });
+
+  it("only accepts create ids that are a plain path segment and no route", async () => {
+    const create = (id: string) =>
+      fetch(baseUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id,
+          chakma_word_script: "\u{1111D}\u{11134}",
+          romanized_pronunciation: "bo",
+          english_translation: "new",
+        }),
+      });
+    for (const id of ["changes", "batch", "import", "a/b", "a?b", "a b", ""]) {
+      const res = await create(id);
+      expect(res.status, id).toBe(400);
+      expect(Object.keys((await res.json()).field_errors)).toEqual(["id"]);
+    }
+    expect((await (await fetch(baseUrl)).json()).data).toHaveLength(
+      sampleWords.length,
+    );
+
+    const res = await create("bo-2");
+    expect(res.status).toBe(201);
+    expect((await fetch(`${baseUrl}/bo-2`)).status).toBe(200);
+  });
+});
+
+describe("word import", () => {
+  function importWords(body: object) {
+    return fetch(`${baseUrl}/import`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  const existing = sampleWords[0];
+  const csv = [
+    "Chakma,Romanized,English",
+    `${existing.chakma_word_script},${existing.romanized_pronunciation},right now`,
+    "\u{11107}\u{1111A},kan,ear",
+    "\u{11107}\u{1111A},kan,ear again",
+    "\u{1111D},,missing romanization",
+    // Anusvara typed before the vowel sign
+    "\u{11107}\u{11101}\u{11128},kin,typed out of order",
+  ].join("\n");
+
+  it("previews a dry run, then saves creates and updates together", async () => {
+    const request = { content: csv, on_duplicate: "update" };
+    const preview = await importWords({ ...request, dry_run: true });
+    expect(preview.status).toBe(200);
+    const { data } = await preview.json();
+    expect(data.rows.map((r: any) => r.action)).toEqual([
+      "update",
+      "create",
+      "error",
+      "error",
+      "create",
+    ]);
+    expect(data.rows[4].word.chakma_word_script).toBe(
+      "\u{11107}\u{11128}\u{11101}",
+    );
+    expect(Object.keys(data.rows[4].warnings)).toEqual(["chakma_word_script"]);
+    expect(data.rows[1].warnings).toBeUndefined();
+    expect(data.rows[0].changed_fields).toEqual(["english_translation"]);
+    expect(data.rows[2].errors.chakma_word_script).toBe("Same word as row 3");
+    expect(Object.keys(data.rows[3].errors)).toEqual([
+      "romanized_pronunciation",
+    ]);
+    expect((await (await fetch(baseUrl)).json()).data).toHaveLength(
+      sampleWords.length,
+    );
+    expect(await auditLog.list()).toHaveLength(0);
+
+    const applied = await (await importWords(request)).json();
+    expect(applied.data).toMatchObject({ created: 2, updated: 1, failed: 2 });
+    const words = (await (await fetch(baseUrl)).json()).data;
+    expect(words).toHaveLength(sampleWords.length + 2);
+    expect(
+      words.find((w: any) => w.id === existing.id).english_translation,
+    ).toBe("right now");
+    const entries = await auditLog.list();
+    expect(entries.map((e) => e.type)).toEqual(["update", "create", "create"]);
+  });
+
+  it("skips existing words by default and needs a Chakma script column", async () => {
+    const { data } = await (await importWords({ content: csv })).json();
+    expect(data.rows[0]).toMatchObject({ action: "skip" });
+    expect(data.rows[0].before.id).toBe(existing.id);
+
+    const res = await importWords({ content: "english\tromanized\near\tkan" });
+    expect(res.status).toBe(400);
+    expect(Object.keys((await res.json()).field_errors)).toEqual(["mapping"]);
+  });
+});
+
+describe("word batch", () => {
+  function batch(operations: object[]) {
+    return fetch(`${baseUrl}/batch`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ operations }),
+    });
+  }
+
+  const newWord = {
+    chakma_word_script: "\u{11107}\u{1111A}",
+    romanized_pronunciation: "kan",
+    english_translation: "ear",
+  };
+
+  it("applies creates, updates and deletes as one change set", async () => {
+    const revision = (await fetch(`${baseUrl}/1`)).headers
+      .get("ETag")!
+      .replace(/"/g, "");
+    const res = await batch([
+      { op: "create", word: newWord },
+      { op: "create", word: { ...newWord, chakma_word_script: "\u{1111D}" } },
+      { op: "update", id: "1", changes: { etymology: "batched" }, revision },
+      { op: "delete", id: "2" },
+    ]);
+    expect(res.status).toBe(200);
+    const { results } = (await res.json()).data;
+    expect(results.map((r: any) => r.op)).toEqual([
+      "create",
+      "create",
+      "update",
+      "delete",
+    ]);
+    expect(results[0].id).not.toBe(results[1].id);
+    expect(results[3].word).toBeNull();
+
+    const words = (await (await fetch(baseUrl)).json()).data;
+    expect(words).toHaveLength(sampleWords.length + 1);
+    expect(words.find((w: any) => w.id === "1").etymology).toBe("batched");
+    expect(await auditLog.list()).toHaveLength(4);
+  });
+
+  it("saves nothing when one operation fails", async () => {
+    const res = await batch([
+      { op: "create", word: newWord },
+      { op: "update", id: "1", changes: { etymology: "x" }, revision: "stale" },
+    ]);
+    expect(res.status).toBe(409);
+    const body = await res.json();
+    expect(body.failed_index).toBe(1);
+    expect(body.conflict.current.id).toBe("1");
+    expect((await (await fetch(baseUrl)).json()).data).toHaveLength(
+      sampleWords.length,
+    );
+    expect(await auditLog.list()).toHaveLength(0);
+  });
+
+  it("needs the admin role for deletes", async () => {
+    role = "contributor";
+    expect((await batch([{ op: "delete", id: "1" }])).status).toBe(403);
+  });
+});
+
+describe("word changes feed", () => {
+  async function changes(since?: string) {
+    const query = since ? `?since=${encodeURIComponent(since)}` : "";
+    return (await (await fetch(`${baseUrl}/changes${query}`)).json()).data;
+  }
+
+  it("reports creates, updates and deletions since a cursor", async () => {
+    const initial = await changes();
+    expect(initial.created).toHaveLength(sampleWords.length);
+    expect(initial.deleted).toEqual([]);
+
+    const before = new Date().toISOString();
+    await put("1", { etymology: "changed" });
+    const created = await (
+      await fetch(baseUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chakma_word_script: "\u{11107}\u{1111A}",
+          romanized_pronunciation: "kan",
+          english_translation: "ear",
+        }),
+      })
+    ).json();
+    await fetch(`${baseUrl}/2`, { method: "DELETE" });
+
+    const delta = await changes(before);
+    expect(delta.created.map((w: any) => w.id)).toEqual([created.data.id]);
+    expect(delta.updated.map((w: any) => w.id)).toEqual(["1"]);
+    expect(delta.deleted.map((t: any) => t.id)).toEqual(["2"]);
+
+    // The cursor is inclusive: the newest change, the deletion, comes again
+    const next = await changes(delta.cursor);
+    expect(next.cursor).toBe(delta.cursor);
+    expect(next.deleted.map((t: any) => t.id)).toEqual(["2"]);
+  });
+
+  it("reports deletions without the audit log, until the word is back", async () => {
+    const before = new Date().toISOString();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(auditLog, "append").mockRejectedValue(new Error("offline"));
+    expect((await fetch(`${baseUrl}/3`, { method: "DELETE" })).status).toBe(
+      200,
+    );
+    expect((await changes(before)).deleted.map((t: any) => t.id)).toEqual([
+      "3",
+    ]);
+
+    const word = sampleWords.find((w) => w.id === "3")!;
+    const recreated = await fetch(baseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...word, is_verified: false }),
+    });
+    expect(recreated.status).toBe(201);
+    const delta = await changes(before);
+    expect(delta.deleted).toEqual([]);
+    expect(delta.created.map((w: any) => w.id)).toEqual(["3"]);
+  });
+
+  it("rejects a since that is not a date", async () => {
+    expect((await fetch(`${baseUrl}/changes?since=yesterday`)).status).toBe(
+      400,
+    );
+  });
+});
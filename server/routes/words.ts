@@ -1,182 +1,749 @@
 import { Router } from "express";
+import type {
+  ApiResponse,
+  Word,
+  WordBatchErrorResponse,
+  WordBatchOperation,
+  WordBatchResult,
+  WordChanges,
+  WordImportField,
+  WordImportResult,
+  WordImportRow,
+  WordTombstone,
+} from "@shared/types";
 import {
-  getRepoFile,
-  putRepoFile,
-  triggerNetlifyBuildIfConfigured,
-} from "./github";
-
-type RelatedTerm = { term: string; language: "chakma" | "english" };
-export type Word = {
-  id: string;
-  chakma_word_script: string;
-  audio_pronunciation_url?: string;
-  romanized_pronunciation: string;
-  english_translation: string;
-  synonyms?: RelatedTerm[];
-  antonyms?: RelatedTerm[];
-  example_sentence: string;
-  etymology: string;
-  explanation_media?: { type: "url" | "image"; value: string };
-  is_verified?: boolean;
-  created_at?: string;
-  updated_at?: string;
+  findUnnormalizedFields,
+  normalizeChakma,
+  normalizeWordScript,
+} from "../../shared/chakma";
+import { hasRole } from "../../shared/roles";
+import {
+  validate,
+  wordBatchRequestSchema,
+  wordImportRequestSchema,
+  wordPatchSchema,
+  wordRevertRequestSchema,
+  wordSchema,
+} from "../../shared/schemas";
+import {
+  guessColumnMapping,
+  parseDelimited,
+  rowToWordFields,
+} from "../../shared/wordImport";
+import { diffFields, type AuditLog, type ContentChange } from "../audit";
+import { getEditor, requireRole } from "../auth";
+import { getWordRevision, parseIfMatch, type WordRepository } from "../storage";
+import { validationFailure } from "../validation";
+import {
+  createRecordEditor,
+  recordKind,
+  type EditOutcome as RecordEditOutcome,
+} from "./edits";
+import type { RouteRes } from "./types";
+
+const SAVE_MESSAGE = "chore(words): sync via developer console";
+
+// Outcomes of the single-word edits, with their response bodies
+type EditOutcome<B = ApiResponse<Word>> = RecordEditOutcome<Word, B>;
+
+const wordKind = recordKind<Word>("Word", "Words", getWordRevision);
+
+const VERIFY_FORBIDDEN = {
+  status: 403,
+  body: { success: false, error: "Only reviewers can change verification" },
 };
 
-const WORDS_PATH = process.env.WORDS_JSON_PATH || "data/words.json";
+// Stored words may predate normalization, so both sides are normalized
+const sameScript = (a: string, b: string) =>
+  normalizeChakma(a.trim()) === normalizeChakma(b.trim());
 
-export const wordsRouter = Router();
+const DUPLICATE = {
+  status: 409,
+  body: { success: false, error: "Duplicate Chakma word" },
+};
 
-async function loadWords(): Promise<{ words: Word[]; sha: string | null }> {
-  try {
-    const { content, sha } = await getRepoFile(WORDS_PATH);
-    if (!content) return { words: [], sha: null };
-    try {
-      const data = JSON.parse(content);
-      if (Array.isArray(data)) return { words: data as Word[], sha };
-      if (Array.isArray((data as any).words))
-        return { words: (data as any).words as Word[], sha };
-      return { words: [], sha };
-    } catch (e) {
-      console.error("Failed parsing words.json from repo", e);
-      return { words: [], sha };
-    }
-  } catch (e) {
-    // Fallback to sample data when GitHub integration is not available
-    console.warn("GitHub integration not configured, using sample data:", e);
-    const { sampleWords } = await import("../../shared/sampleData");
-    return { words: sampleWords as any, sha: null };
+const DUPLICATE_ID = {
+  status: 409,
+  body: { success: false, error: "A word with this id already exists" },
+};
+
+// Verification vouches for the content a reviewer saw, so an edit to that
+// content by anyone else puts the word back to unverified
+function withVerification(before: Word, after: Word, canVerify: boolean): Word {
+  if (canVerify || !after.is_verified) return after;
+  const contentChanged = diffFields(before, after).some(
+    (field) => field !== "is_verified",
+  );
+  return contentChanged ? { ...after, is_verified: false } : after;
+}
+
+// Date.now() ids, bumped past any taken one so a batch can create several
+function nextWordId(words: Word[]): string {
+  let id = Date.now();
+  while (words.some((w) => w.id === String(id))) id++;
+  return String(id);
+}
+
+// The edits below take a validated, normalized payload and return the
+// outcome of applying it to `words`, shared by the single and batch routes.
+
+function createWord(
+  words: Word[],
+  input: Word,
+  canVerify: boolean,
+): EditOutcome {
+  // Contributors propose words; only reviewers can publish them verified
+  if (input.is_verified && !canVerify) return VERIFY_FORBIDDEN;
+  if (
+    words.some((w) =>
+      sameScript(w.chakma_word_script, input.chakma_word_script),
+    )
+  ) {
+    return DUPLICATE;
   }
+  // A chosen id must be free: every by-id route assumes ids are unique
+  if (input.id && words.some((w) => w.id === input.id)) return DUPLICATE_ID;
+  const now = new Date().toISOString();
+  const word: Word = {
+    id: input.id || nextWordId(words),
+    chakma_word_script: input.chakma_word_script,
+    romanized_pronunciation: input.romanized_pronunciation,
+    english_translation: input.english_translation,
+    synonyms: input.synonyms || [],
+    antonyms: input.antonyms || [],
+    example_sentence: input.example_sentence || "",
+    etymology: input.etymology || "",
+    explanation_media: input.explanation_media,
+    audio_pronunciation_url: input.audio_pronunciation_url,
+    is_verified: Boolean(input.is_verified),
+    created_at: now,
+    updated_at: now,
+  };
+  return {
+    records: [...words, word],
+    change: { type: "create", target: "word", before: null, after: word },
+    status: 201,
+    body: { success: true, data: word },
+    record: word,
+  };
 }
 
-async function saveWords(
+function updateWord(
   words: Word[],
-  prevSha: string | null,
-): Promise<string> {
-  try {
-    const payload = JSON.stringify(words, null, 2);
-    const result = await putRepoFile(
-      WORDS_PATH,
-      payload,
-      "chore(words): sync via developer console",
-      prevSha || undefined,
-    );
-    await triggerNetlifyBuildIfConfigured();
-    return result.sha;
-  } catch (e) {
-    console.warn("GitHub integration not configured, cannot save words:", e);
-    // Return a mock SHA when GitHub is not available
-    return Date.now().toString();
+  id: string,
+  patch: Partial<Word>,
+  ifMatch: string[] | "*" | null,
+  canVerify: boolean,
+): EditOutcome {
+  const index = words.findIndex((w) => w.id === id);
+  const rejected = wordKind.checkRevision(words[index], ifMatch);
+  if (rejected) return rejected;
+  const existing = words[index];
+  if (
+    "is_verified" in patch &&
+    Boolean(patch.is_verified) !== Boolean(existing.is_verified) &&
+    !canVerify
+  ) {
+    return VERIFY_FORBIDDEN;
+  }
+  const updated = withVerification(
+    existing,
+    wordKind.patch(existing, patch),
+    canVerify,
+  );
+  // Prevent changing to duplicate Chakma word
+  if (
+    patch.chakma_word_script &&
+    words.some(
+      (w, i) =>
+        i !== index &&
+        sameScript(w.chakma_word_script, patch.chakma_word_script!),
+    )
+  ) {
+    return DUPLICATE;
   }
+  const final = words.slice();
+  final[index] = updated;
+  return {
+    records: final,
+    change: {
+      type: "update",
+      target: "word",
+      before: existing,
+      after: updated,
+    },
+    status: 200,
+    body: { success: true, data: updated },
+    record: updated,
+  };
 }
 
-wordsRouter.get("/", async (_req, res) => {
-  try {
-    const { words } = await loadWords();
-    res.json({ success: true, data: words });
-  } catch (e: any) {
-    res
-      .status(500)
-      .json({ success: false, error: e?.message || "Failed to load words" });
+function deleteWord(
+  words: Word[],
+  id: string,
+  ifMatch: string[] | "*" | null,
+): EditOutcome<ApiResponse<never>> {
+  const existing = words.find((w) => w.id === id);
+  const rejected = wordKind.checkRevision(existing, ifMatch);
+  if (rejected) return rejected;
+  return {
+    records: words.filter((w) => w.id !== id),
+    change: { type: "delete", target: "word", before: existing, after: null },
+    status: 200,
+    body: { success: true, message: "Deleted" },
+  };
+}
+
+// Chakma text is stored normalized, as on the single-word routes
+function normalizeOperation(operation: WordBatchOperation): WordBatchOperation {
+  if (operation.op === "create") {
+    return { ...operation, word: normalizeWordScript(operation.word) };
+  }
+  if (operation.op === "update") {
+    return { ...operation, changes: normalizeWordScript(operation.changes) };
+  }
+  return operation;
+}
+
+function applyOperation(
+  words: Word[],
+  operation: WordBatchOperation,
+  canVerify: boolean,
+): EditOutcome {
+  const ifMatch =
+    "revision" in operation && operation.revision ? [operation.revision] : null;
+  switch (operation.op) {
+    case "create":
+      return createWord(words, operation.word as Word, canVerify);
+    case "update":
+      return updateWord(
+        words,
+        operation.id,
+        operation.changes,
+        ifMatch,
+        canVerify,
+      );
+    case "delete":
+      return deleteWord(words, operation.id, ifMatch);
   }
-});
-
-wordsRouter.post("/", async (req, res) => {
-  try {
-    const newWord = req.body as Partial<Word>;
-    if (
-      !newWord.chakma_word_script ||
-      !newWord.romanized_pronunciation ||
-      !newWord.english_translation
-    ) {
-      return res
-        .status(400)
-        .json({ success: false, error: "Missing required fields" });
+}
+
+/**
+ * The tombstones to store with `after`: one per word dropped since `before`,
+ * stamped now, while a word that is back (e.g. reverted) loses its own.
+ * They are saved in the same write as the words, so no deletion goes unseen.
+ */
+function updateTombstones(
+  before: Word[],
+  deleted: WordTombstone[],
+  after: Word[],
+): WordTombstone[] {
+  const present = new Set(after.map((w) => w.id));
+  const now = new Date().toISOString();
+  const tombstones = new Map(
+    deleted.filter((t) => !present.has(t.id)).map((t) => [t.id, t]),
+  );
+  for (const word of before) {
+    if (!present.has(word.id)) {
+      tombstones.set(word.id, { id: word.id, deleted_at: now });
     }
-    const { words, sha } = await loadWords();
-    const duplicate = words.find(
-      (w) => w.chakma_word_script.trim() === newWord.chakma_word_script!.trim(),
-    );
-    if (duplicate) {
-      return res
-        .status(409)
-        .json({ success: false, error: "Duplicate Chakma word" });
+  }
+  return [...tombstones.values()];
+}
+
+/**
+ * What changed at or after `since`: words by their created_at and
+ * updated_at, and the tombstones of words deleted since then. Without
+ * `since` every word counts as created.
+ */
+function collectWordChanges(
+  words: Word[],
+  deleted: WordTombstone[],
+  since: string | null,
+): WordChanges {
+  const sinceTime = since ? Date.parse(since) : -Infinity;
+  const isNew = (time?: string) => !!time && Date.parse(time) >= sinceTime;
+  let cursor = since;
+  const seen = (time?: string) => {
+    if (time && (!cursor || Date.parse(time) > Date.parse(cursor))) {
+      cursor = time;
     }
-    const now = new Date().toISOString();
-    const word: Word = {
-      id: newWord.id || String(Date.now()),
-      chakma_word_script: newWord.chakma_word_script!,
-      romanized_pronunciation: newWord.romanized_pronunciation!,
-      english_translation: newWord.english_translation!,
-      synonyms: newWord.synonyms || [],
-      antonyms: newWord.antonyms || [],
-      example_sentence: newWord.example_sentence || "",
-      etymology: newWord.etymology || "",
-      explanation_media: newWord.explanation_media,
-      audio_pronunciation_url: newWord.audio_pronunciation_url,
-      is_verified: Boolean(newWord.is_verified),
-      created_at: now,
-      updated_at: now,
-    };
-    const updated = [...words, word];
-    await saveWords(updated, sha);
-    res.status(201).json({ success: true, data: word });
-  } catch (e: any) {
-    res
-      .status(500)
-      .json({ success: false, error: e?.message || "Failed to create word" });
+  };
+
+  const created: Word[] = [];
+  const updated: Word[] = [];
+  for (const word of words) {
+    seen(word.updated_at);
+    if (!since || isNew(word.created_at)) created.push(word);
+    else if (isNew(word.updated_at)) updated.push(word);
   }
-});
-
-wordsRouter.put("/:id", async (req, res) => {
-  try {
-    const id = req.params.id;
-    const patch = req.body as Partial<Word>;
-    const { words, sha } = await loadWords();
-    const index = words.findIndex((w) => w.id === id);
-    if (index === -1)
-      return res.status(404).json({ success: false, error: "Word not found" });
+
+  for (const tombstone of deleted) seen(tombstone.deleted_at);
+
+  return {
+    since,
+    cursor,
+    created,
+    updated,
+    deleted: since ? deleted.filter((t) => isNew(t.deleted_at)) : [],
+  };
+}
+
+interface ImportPlan {
+  words: Word[];
+  changes: ContentChange[];
+  rows: WordImportRow[];
+}
+
+// Per-field notes for a row whose Chakma text is not in normalized form, as
+// the saved word will differ from the file there
+function normalizationWarnings(
+  fields: Partial<Word>,
+): Record<string, string> | undefined {
+  const unnormalized = findUnnormalizedFields(fields);
+  if (!unnormalized.length) return undefined;
+  return Object.fromEntries(
+    unnormalized.map((field) => [
+      field,
+      "Chakma text is stored in normalized form",
+    ]),
+  );
+}
+
+// Works out what each spreadsheet row does to `words`. Duplicates are matched
+// against the words before the import and against earlier rows, so a word
+// listed twice in the file is reported rather than applied twice. Chakma text
+// is saved normalized, with a warning on rows typed otherwise. Imported words
+// start unverified; updates keep the existing verification only when
+// made by a reviewer.
+function planImport(
+  words: Word[],
+  records: string[][],
+  mapping: (WordImportField | null)[],
+  onDuplicate: "skip" | "update",
+  canVerify: boolean,
+): ImportPlan {
+  const now = new Date().toISOString();
+  const stamp = Date.now();
+  const final = words.slice();
+  const changes: ContentChange[] = [];
+  const seen: { script: string; row: number }[] = [];
+
+  const rows = records.map((record, i): WordImportRow => {
+    const row = i + 2;
+    const typed = rowToWordFields(record, mapping);
+    const fields = normalizeWordScript(typed);
+    const warnings = normalizationWarnings(typed);
+    const script = fields.chakma_word_script;
+    const earlier = script && seen.find((s) => sameScript(s.script, script));
+    if (earlier) {
+      return {
+        row,
+        action: "error",
+        errors: { chakma_word_script: `Same word as row ${earlier.row}` },
+      };
+    }
+    if (script) seen.push({ script, row });
+
+    const index = script
+      ? words.findIndex((w) => sameScript(w.chakma_word_script, script))
+      : -1;
+    if (index === -1) {
+      const parsed = validate(wordSchema, fields);
+      if (parsed.errors) return { row, action: "error", errors: parsed.errors };
+      const input = parsed.data;
+      const word: Word = {
+        id: `${stamp}-${row}`,
+        chakma_word_script: input.chakma_word_script,
+        romanized_pronunciation: input.romanized_pronunciation,
+        english_translation: input.english_translation,
+        synonyms: input.synonyms || [],
+        antonyms: input.antonyms || [],
+        example_sentence: input.example_sentence || "",
+        etymology: input.etymology || "",
+        audio_pronunciation_url: input.audio_pronunciation_url,
+        is_verified: false,
+        created_at: now,
+        updated_at: now,
+      };
+      final.push(word);
+      changes.push({
+        type: "create",
+        target: "word",
+        before: null,
+        after: word,
+      });
+      return { row, action: "create", word, warnings };
+    }
+
     const existing = words[index];
-    const updated: Word = {
-      ...existing,
-      ...patch,
-      updated_at: new Date().toISOString(),
-    };
-    // Prevent changing to duplicate Chakma word
-    if (patch.chakma_word_script) {
-      const dup = words.find(
-        (w, i) =>
-          i !== index &&
-          w.chakma_word_script.trim() === patch.chakma_word_script!.trim(),
-      );
-      if (dup)
-        return res
-          .status(409)
-          .json({ success: false, error: "Duplicate Chakma word" });
+    if (onDuplicate === "skip")
+      return { row, action: "skip", before: existing };
+    const updated = withVerification(
+      existing,
+      {
+        ...existing,
+        ...fields,
+        id: existing.id,
+        created_at: existing.created_at,
+        updated_at: now,
+      },
+      canVerify,
+    );
+    const parsed = validate(wordSchema, updated);
+    if (parsed.errors) return { row, action: "error", errors: parsed.errors };
+    const changed_fields = diffFields(existing, updated);
+    // Nothing new in the row: leave the word and its timestamp alone
+    if (!changed_fields.length) {
+      return { row, action: "skip", before: existing };
     }
-    const final = words.slice();
     final[index] = updated;
-    await saveWords(final, sha);
-    res.json({ success: true, data: updated });
-  } catch (e: any) {
-    res
-      .status(500)
-      .json({ success: false, error: e?.message || "Failed to update word" });
-  }
-});
-
-wordsRouter.delete("/:id", async (req, res) => {
-  try {
-    const id = req.params.id;
-    const { words, sha } = await loadWords();
-    const exists = words.some((w) => w.id === id);
-    if (!exists)
-      return res.status(404).json({ success: false, error: "Word not found" });
-    const final = words.filter((w) => w.id !== id);
-    await saveWords(final, sha);
-    res.json({ success: true, message: "Deleted" });
-  } catch (e: any) {
-    res
-      .status(500)
-      .json({ success: false, error: e?.message || "Failed to delete word" });
-  }
-});
+    changes.push({
+      type: "update",
+      target: "word",
+      before: existing,
+      after: updated,
+    });
+    return {
+      row,
+      action: "update",
+      word: updated,
+      before: existing,
+      changed_fields,
+      warnings,
+    };
+  });
+
+  return { words: final, changes, rows };
+}
+
+export function createWordsRouter(
+  repository: WordRepository,
+  auditLog: AuditLog,
+) {
+  const wordsRouter = Router();
+
+  const { commitEdit, send, sendError } = createRecordEditor(
+    wordKind,
+    {
+      async load() {
+        const { words, deleted, sha } = await repository.load();
+        return { records: words, deleted, sha };
+      },
+      save: (words, loaded, alongside) =>
+        repository.save(
+          words,
+          updateTombstones(loaded.records, loaded.deleted, words),
+          loaded.sha,
+          SAVE_MESSAGE,
+          alongside,
+        ),
+    },
+    auditLog,
+  );
+
+  wordsRouter.get("/", async (_req, res: RouteRes<"GET /words">) => {
+    try {
+      const { words } = await repository.load();
+      res.json({ success: true, data: words });
+    } catch (e: any) {
+      sendError(res, e, "Failed to load words");
+    }
+  });
+
+  // Delta feed for caches and mirrors; `since` is the `cursor` of an earlier
+  // response (or any ISO time)
+  wordsRouter.get(
+    "/changes",
+    async (req, res: RouteRes<"GET /words/changes">) => {
+      try {
+        const since = req.query.since;
+        if (
+          since !== undefined &&
+          (typeof since !== "string" || Number.isNaN(Date.parse(since)))
+        ) {
+          return send(
+            res,
+            validationFailure({ since: "Must be a cursor or an ISO date" }),
+          );
+        }
+        // Tombstones are stored with the words, so this is one read, as for
+        // GET /words
+        const { words, deleted } = await repository.load();
+        res.json({
+          success: true,
+          data: collectWordChanges(words, deleted, (since as string) || null),
+        });
+      } catch (e: any) {
+        sendError(res, e, "Failed to load word changes");
+      }
+    },
+  );
+
+  wordsRouter.get("/:id", async (req, res: RouteRes<"GET /words/:id">) => {
+    try {
+      const { words } = await repository.load();
+      const word = words.find((w) => w.id === req.params.id);
+      if (!word) return send(res, wordKind.notFound);
+      send(res, {
+        status: 200,
+        body: { success: true, data: word },
+        record: word,
+      });
+    } catch (e: any) {
+      sendError(res, e, "Failed to load word");
+    }
+  });
+
+  wordsRouter.post(
+    "/",
+    requireRole("contributor"),
+    async (req, res: RouteRes<"POST /words">) => {
+      try {
+        const parsed = validate(wordSchema, req.body);
+        if (parsed.errors) return send(res, validationFailure(parsed.errors));
+        // Chakma text is stored normalized so every spelling compares equal
+        const newWord = normalizeWordScript(parsed.data);
+        const canVerify = hasRole(getEditor(res)?.role, "reviewer");
+        const outcome = await commitEdit(res, (words) =>
+          createWord(words, newWord, canVerify),
+        );
+        send(res, outcome);
+      } catch (e: any) {
+        sendError(res, e, "Failed to create word");
+      }
+    },
+  );
+
+  // Applies several edits as one save: one commit and at most one rebuild
+  // instead of one per word. Each operation is checked like its single-word
+  // route; the first failure is returned and nothing is saved.
+  wordsRouter.post(
+    "/batch",
+    requireRole("contributor"),
+    async (req, res: RouteRes<"POST /words/batch">) => {
+      try {
+        const parsed = validate(wordBatchRequestSchema, req.body);
+        if (parsed.errors) return send(res, validationFailure(parsed.errors));
+        const role = getEditor(res)?.role;
+        const operations = parsed.data.operations.map(normalizeOperation);
+        if (
+          operations.some((o) => o.op === "delete") &&
+          !hasRole(role, "admin")
+        ) {
+          return res
+            .status(403)
+            .json({ success: false, error: "Requires admin role" });
+        }
+        const canVerify = hasRole(role, "reviewer");
+        const outcome = await commitEdit(res, (words) => {
+          const changes: ContentChange[] = [];
+          const results: WordBatchResult["results"] = [];
+          for (const [index, operation] of operations.entries()) {
+            const step = applyOperation(words, operation, canVerify);
+            if (!step.records) {
+              const body = step.body as ApiResponse<never>;
+              return {
+                status: step.status,
+                body: {
+                  ...body,
+                  error: `Operation ${index + 1}: ${body.error}`,
+                  failed_index: index,
+                } satisfies WordBatchErrorResponse,
+              };
+            }
+            words = step.records;
+            changes.push(step.change);
+            results.push({
+              op: operation.op,
+              id: (step.change.after ?? step.change.before).id,
+              word: step.record ?? null,
+            });
+          }
+          return {
+            records: words,
+            changes,
+            status: 200,
+            body: { success: true, data: { results } },
+          };
+        });
+        send(res, outcome);
+      } catch (e: any) {
+        sendError(res, e, "Failed to apply batch");
+      }
+    },
+  );
+
+  // Imports a CSV/TSV export. Every row is validated and checked for an
+  // existing word first; the resulting creates and updates are then saved
+  // together, or only reported when dry_run is set.
+  wordsRouter.post(
+    "/import",
+    requireRole("contributor"),
+    async (req, res: RouteRes<"POST /words/import">) => {
+      try {
+        const parsed = validate(wordImportRequestSchema, req.body);
+        if (parsed.errors) return send(res, validationFailure(parsed.errors));
+        const {
+          content,
+          delimiter,
+          on_duplicate = "skip",
+          dry_run = false,
+        } = parsed.data;
+        const [headers = [], ...records] = parseDelimited(content, delimiter);
+        const mapping = parsed.data.mapping ?? guessColumnMapping(headers);
+        if (!mapping.includes("chakma_word_script")) {
+          return send(
+            res,
+            validationFailure({
+              mapping: "No column is mapped to chakma_word_script",
+            }),
+          );
+        }
+        const canVerify = hasRole(getEditor(res)?.role, "reviewer");
+        const outcome = await commitEdit(res, (words) => {
+          const plan = planImport(
+            words,
+            records,
+            mapping,
+            on_duplicate,
+            canVerify,
+          );
+          const count = (action: WordImportRow["action"]) =>
+            plan.rows.filter((r) => r.action === action).length;
+          const result: WordImportResult = {
+            dry_run,
+            rows: plan.rows,
+            created: count("create"),
+            updated: count("update"),
+            skipped: count("skip"),
+            failed: count("error"),
+          };
+          return {
+            records: dry_run || !plan.changes.length ? undefined : plan.words,
+            changes: plan.changes,
+            status: 200,
+            body: { success: true, data: result },
+          };
+        });
+        send(res, outcome);
+      } catch (e: any) {
+        sendError(res, e, "Failed to import words");
+      }
+    },
+  );
+
+  wordsRouter.put(
+    "/:id",
+    requireRole("contributor"),
+    async (req, res: RouteRes<"PUT /words/:id">) => {
+      try {
+        const id = req.params.id;
+        const parsed = validate(wordPatchSchema, req.body);
+        if (parsed.errors) return send(res, validationFailure(parsed.errors));
+        const patch = normalizeWordScript(parsed.data);
+        const canVerify = hasRole(getEditor(res)?.role, "reviewer");
+        const ifMatch = parseIfMatch(req.header("If-Match"));
+        const outcome = await commitEdit(res, (words) =>
+          updateWord(words, id, patch, ifMatch, canVerify),
+        );
+        send(res, outcome);
+      } catch (e: any) {
+        sendError(res, e, "Failed to update word");
+      }
+    },
+  );
+
+  wordsRouter.post(
+    "/:id/revert",
+    requireRole("contributor"),
+    async (req, res: RouteRes<"POST /words/:id/revert">) => {
+      try {
+        const id = req.params.id;
+        const parsed = validate(wordRevertRequestSchema, req.body ?? {});
+        if (parsed.errors) return send(res, validationFailure(parsed.errors));
+        const { entry_id, version = "after" } = parsed.data;
+        const entry = (await auditLog.list()).find(
+          (e) => e.id === entry_id && e.target === "word" && e.target_id === id,
+        );
+        // A delete has no "after"; its "before" is the last saved version
+        const snapshot = (
+          version === "before" ? entry?.before : (entry?.after ?? entry?.before)
+        ) as Word | null | undefined;
+        if (!snapshot) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Revision not found" });
+        }
+        const canVerify = hasRole(getEditor(res)?.role, "reviewer");
+        const ifMatch = parseIfMatch(req.header("If-Match"));
+        const outcome = await commitEdit(res, (words) => {
+          const index = words.findIndex((w) => w.id === id);
+          const existing = index === -1 ? null : words[index];
+          if (existing && wordKind.isStale(ifMatch, existing)) {
+            return wordKind.revisionConflict(existing);
+          }
+          if (
+            Boolean(snapshot.is_verified) !== Boolean(existing?.is_verified) &&
+            !canVerify
+          ) {
+            return VERIFY_FORBIDDEN;
+          }
+          let restored: Word = {
+            ...normalizeWordScript(snapshot),
+            id,
+            created_at: existing?.created_at ?? snapshot.created_at,
+            updated_at: new Date().toISOString(),
+          };
+          if (existing) {
+            restored = withVerification(existing, restored, canVerify);
+          }
+          const duplicate = words.find(
+            (w) =>
+              w.id !== id &&
+              sameScript(w.chakma_word_script, restored.chakma_word_script),
+          );
+          if (duplicate) return DUPLICATE;
+          // Reverting a deleted word brings it back
+          const final = words.slice();
+          if (existing) final[index] = restored;
+          else final.push(restored);
+          return {
+            records: final,
+            change: {
+              type: existing ? "update" : "create",
+              target: "word",
+              before: existing,
+              after: restored,
+            },
+            status: 200,
+            body: { success: true, data: restored },
+            record: restored,
+          };
+        });
+        send(res, outcome);
+      } catch (e: any) {
+        sendError(res, e, "Failed to revert word");
+      }
+    },
+  );
+
+  wordsRouter.delete(
+    "/:id",
+    requireRole("admin"),
+    async (req, res: RouteRes<"DELETE /words/:id">) => {
+      try {
+        const id = req.params.id;
+        const ifMatch = parseIfMatch(req.header("If-Match"));
+        const outcome = await commitEdit(res, (words) =>
+          deleteWord(words, id, ifMatch),
+        );
+        send(res, outcome);
+      } catch (e: any) {
+        sendError(res, e, "Failed to delete word");
+      }
+    },
+  );
+
+  return wordsRouter;
+}
@@ -0,0 +1,15 @@
+/**
+ * Prints an EDITOR_ACCOUNTS entry for a new editor.
+ * Usage: npm run hash-password -- <username> <password> [role]
+ */
+import { EDITOR_ROLES, isEditorRole } from "../../shared/roles";
+import { hashPassword } from "../auth/passwords";
+
+const [username, password, role] = process.argv.slice(2);
+if (!username || !password || (role && !isEditorRole(role))) {
+  console.error(
+    `Usage: npm run hash-password -- <username> <password> [${EDITOR_ROLES.join("|")}]`,
+  );
+  process.exit(1);
+}
+console.log(`${username}:${role ? `${role}:` : ""}${hashPassword(password)}`);
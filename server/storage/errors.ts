@@ -0,0 +1,10 @@
+/**
+ * Thrown by `WordRepository.save` when the stored document changed since the
+ * snapshot the caller loaded (its `prevSha` is stale).
+ */
+export class StorageConflictError extends Error {
+  constructor(message = "Stored words changed since they were loaded") {
+    super(message);
+    this.name = "StorageConflictError";
+  }
+}
@@ -0,0 +1,121 @@
+import { createHash, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Character } from "@shared/types";
+import { StorageConflictError } from "./errors";
+import {
+  parseCharactersDocument,
+  parseWordsDocument,
+  serializeCharacters,
+  serializeWords,
+} from "./serialize";
+import type { CharacterRepository, WordRepository } from "./types";
+
+function hashContent(content: string): string {
+  return createHash("sha1").update(content).digest("hex");
+}
+
+async function readFileIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+// Pending writes per resolved path. Each write waits for the previous one,
+// so the revision check and the rename happen without another write between.
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function serializeWrite<T>(key: string, write: () => Promise<T>): Promise<T> {
+  const previous = writeQueues.get(key) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(write);
+  writeQueues.set(key, next);
+  // Drop the entry once idle so the map does not grow with every path
+  next
+    .catch(() => undefined)
+    .then(() => {
+      if (writeQueues.get(key) === next) writeQueues.delete(key);
+    });
+  return next;
+}
+
+// Reads and writes one JSON document, revisioned by a hash of its content
+function createFileDocument(filePath: string) {
+  const resolved = path.resolve(filePath);
+  return {
+    async read() {
+      const content = await readFileIfExists(resolved);
+      return { content, sha: content === null ? null : hashContent(content) };
+    },
+    write(payload: string, prevSha: string | null) {
+      return serializeWrite(resolved, async () => {
+        const current = await readFileIfExists(resolved);
+        if ((current === null ? null : hashContent(current)) !== prevSha) {
+          throw new StorageConflictError();
+        }
+        await fs.mkdir(path.dirname(resolved), { recursive: true });
+        // Write then rename so a crash never leaves a truncated file behind.
+        // The random suffix keeps writes from other processes apart.
+        const tmp = `${resolved}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+        try {
+          await fs.writeFile(tmp, payload, "utf8");
+          await fs.rename(tmp, resolved);
+        } catch (e: any) {
+          await fs.rm(tmp, { force: true });
+          // Another process replaced the file mid-write: let the caller retry
+          if (e?.code === "ENOENT") throw new StorageConflictError();
+          throw e;
+        }
+        return hashContent(payload);
+      });
+    },
+  };
+}
+
+/**
+ * Stores words in a JSON file on local disk, for self-hosted deployments.
+ * The revision is a SHA-1 of the file content, so edits made outside the
+ * server are picked up on the next load.
+ */
+export function createFileWordRepository(filePath: string): WordRepository {
+  const document = createFileDocument(filePath);
+  return {
+    backend: "file",
+    async load() {
+      const { content, sha } = await document.read();
+      return { ...parseWordsDocument(content), sha };
+    },
+    async save(words, deleted, prevSha) {
+      return document.write(serializeWords(words, deleted), prevSha);
+    },
+  };
+}
+
+/**
+ * Stores characters in a JSON file on local disk. Until the file exists,
+ * `seed` is served so the inventory is never empty on a fresh install.
+ */
+export function createFileCharacterRepository(
+  filePath: string,
+  seed: Character[] = [],
+): CharacterRepository {
+  const document = createFileDocument(filePath);
+  return {
+    backend: "file",
+    async load() {
+      const { content, sha } = await document.read();
+      return {
+        characters:
+          content === null
+            ? structuredClone(seed)
+            : parseCharactersDocument(content),
+        sha,
+      };
+    },
+    async save(characters, prevSha) {
+      return document.write(serializeCharacters(characters), prevSha);
+    },
+  };
+}
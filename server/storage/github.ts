@@ -0,0 +1,120 @@
+import { createHash } from "crypto";
+import type { Character } from "@shared/types";
+import {
+  GitHubApiError,
+  commitRepoFiles,
+  getRepoFile,
+  putRepoFile,
+  triggerNetlifyBuildIfConfigured,
+  type RepoFileChange,
+} from "../routes/github";
+import { StorageConflictError } from "./errors";
+import {
+  parseCharactersDocument,
+  parseWordsDocument,
+  serializeCharacters,
+  serializeWords,
+} from "./serialize";
+import type { CharacterRepository, WordRepository } from "./types";
+
+// The sha git gives `content` as a blob, i.e. its revision once committed
+function blobSha(content: string): string {
+  return createHash("sha1")
+    .update(`blob ${Buffer.byteLength(content)}\0`)
+    .update(content)
+    .digest("hex");
+}
+
+// Commits one JSON document, plus any files `alongside` it in the same
+// commit, mapping stale revisions to StorageConflictError
+async function saveRepoDocument(
+  path: string,
+  payload: string,
+  prevSha: string | null,
+  message: string,
+  alongside: RepoFileChange[] = [],
+): Promise<string> {
+  let sha: string;
+  try {
+    if (alongside.length) {
+      await commitRepoFiles(
+        [{ path, content: payload, sha: prevSha }, ...alongside],
+        message,
+      );
+      sha = blobSha(payload);
+    } else {
+      ({ sha } = await putRepoFile(
+        path,
+        payload,
+        message,
+        prevSha || undefined,
+      ));
+    }
+  } catch (e) {
+    // 409: sha is stale; 422 without a sha: the file was created meanwhile
+    if (
+      e instanceof GitHubApiError &&
+      (e.status === 409 || (e.status === 422 && !prevSha))
+    ) {
+      throw new StorageConflictError();
+    }
+    throw e;
+  }
+  await triggerNetlifyBuildIfConfigured();
+  return sha;
+}
+
+/**
+ * Stores words as a JSON file in a GitHub repository via the contents API, or
+ * the Git Data API when other files go in the same commit. Every save is one
+ * commit and fires the Netlify build hook when configured.
+ */
+export function createGitHubWordRepository(path: string): WordRepository {
+  return {
+    backend: "github",
+    async load() {
+      const { content, sha } = await getRepoFile(path);
+      return { ...parseWordsDocument(content), sha };
+    },
+    async save(words, deleted, prevSha, message, alongside) {
+      return saveRepoDocument(
+        path,
+        serializeWords(words, deleted),
+        prevSha,
+        message,
+        alongside,
+      );
+    },
+  };
+}
+
+/**
+ * Stores characters as a JSON file in a GitHub repository. Until the file is
+ * first committed, `seed` is served in its place.
+ */
+export function createGitHubCharacterRepository(
+  path: string,
+  seed: Character[] = [],
+): CharacterRepository {
+  return {
+    backend: "github",
+    async load() {
+      const { content, sha } = await getRepoFile(path);
+      return {
+        characters: sha
+          ? parseCharactersDocument(content)
+          : structuredClone(seed),
+        sha,
+      };
+    },
+    async save(characters, prevSha, message, alongside) {
+      return saveRepoDocument(
+        path,
+        serializeCharacters(characters),
+        prevSha,
+        message,
+        alongside,
+      );
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { Character, Word } from "@shared/types";
+import {
+  createFileCharacterRepository,
+  createFileWordRepository,
+  createMemoryWordRepository,
+  resolveWordStorageBackend,
+  StorageConflictError,
+} from "./index";
+
+const word: Word = {
+  id: "1",
+  chakma_word_script: "𑄃𑄘𑄮",
+  romanized_pronunciation: "ado",
+  english_translation: "today",
+  example_sentence: "",
+  etymology: "",
+};
+
+describe("resolveWordStorageBackend", () => {
+  it("uses the configured backend", () => {
+    expect(resolveWordStorageBackend({ WORDS_STORAGE: "file" })).toBe("file");
+  });
+
+  it("rejects unknown backends", () => {
+    expect(() => resolveWordStorageBackend({ WORDS_STORAGE: "s3" })).toThrow(
+      /Invalid WORDS_STORAGE/,
+    );
+  });
+
+  it("falls back to memory without GitHub credentials", () => {
+    expect(resolveWordStorageBackend({})).toBe("memory");
+    expect(
+      resolveWordStorageBackend({
+        GITHUB_TOKEN: "t",
+        GITHUB_OWNER: "o",
+        GITHUB_REPO: "r",
+      }),
+    ).toBe("github");
+  });
+});
+
+describe("memory repository", () => {
+  it("bumps the revision and isolates stored data", async () => {
+    const repo = createMemoryWordRepository([word]);
+    const first = await repo.load();
+    first.words[0].english_translation = "mutated";
+    const sha = await repo.save([], [], first.sha, "clear");
+    const second = await repo.load();
+    expect(second.words).toEqual([]);
+    expect(second.sha).toBe(sha);
+    expect(sha).not.toBe(first.sha);
+  });
+
+  it("rejects saves based on a stale revision", async () => {
+    const repo = createMemoryWordRepository([word]);
+    const { sha } = await repo.load();
+    await repo.save([], [], sha, "first");
+    await expect(repo.save([word], [], sha, "second")).rejects.toBeInstanceOf(
+      StorageConflictError,
+    );
+  });
+});
+
+describe("file repository", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it("starts empty and round-trips words through disk", async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "chakmalex-"));
+    const file = path.join(dir, "data", "words.json");
+    const repo = createFileWordRepository(file);
+
+    expect(await repo.load()).toEqual({ words: [], deleted: [], sha: null });
+
+    const sha = await repo.save([word], [], null, "add");
+    const loaded = await repo.load();
+    expect(loaded.words).toEqual([word]);
+    expect(loaded.sha).toBe(sha);
+    expect(JSON.parse(await readFile(file, "utf8"))).toEqual([word]);
+  });
+
+  it("keeps tombstones next to the words once one is deleted", async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "chakmalex-"));
+    const file = path.join(dir, "words.json");
+    const repo = createFileWordRepository(file);
+    const tombstone = { id: "2", deleted_at: "2026-01-02T00:00:00.000Z" };
+
+    await repo.save([word], [tombstone], null, "delete");
+    expect(JSON.parse(await readFile(file, "utf8"))).toEqual({
+      words: [word],
+      deleted: [tombstone],
+    });
+    expect(await repo.load()).toMatchObject({
+      words: [word],
+      deleted: [tombstone],
+    });
+  });
+
+  it("serves the character seed until the first save", async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "chakmalex-"));
+    const file = path.join(dir, "characters.json");
+    const seed: Character[] = [
+      {
+        id: "alphabet-1",
+        character_script: "𑄇",
+        character_type: "alphabet",
+        romanized_name: "ka",
+      },
+    ];
+    const repo = createFileCharacterRepository(file, seed);
+
+    expect(await repo.load()).toEqual({ characters: seed, sha: null });
+    await repo.save([], null, "clear");
+    expect((await repo.load()).characters).toEqual([]);
+  });
+
+  it("lets only one of several concurrent saves from a revision through", async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "chakmalex-"));
+    const repo = createFileWordRepository(path.join(dir, "words.json"));
+    const sha = await repo.save([word], [], null, "add");
+
+    const results = await Promise.allSettled(
+      [1, 2, 3, 4, 5].map((n) =>
+        repo.save([word, { ...word, id: String(n + 1) }], [], sha, "add"),
+      ),
+    );
+    const saved = results.filter((r) => r.status === "fulfilled");
+    expect(saved).toHaveLength(1);
+    results
+      .filter((r) => r.status === "rejected")
+      .forEach((r) =>
+        expect((r as PromiseRejectedResult).reason).toBeInstanceOf(
+          StorageConflictError,
+        ),
+      );
+    expect((await repo.load()).sha).toBe(
+      (saved[0] as PromiseFulfilledResult<string>).value,
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { sampleCharacters, sampleWords } from "../../shared/sampleData";
+import {
+  createFileCharacterRepository,
+  createFileWordRepository,
+} from "./file";
+import {
+  createGitHubCharacterRepository,
+  createGitHubWordRepository,
+} from "./github";
+import {
+  createMemoryCharacterRepository,
+  createMemoryWordRepository,
+} from "./memory";
+import type {
+  CharacterRepository,
+  WordRepository,
+  WordStorageBackend,
+} from "./types";
+
+export type {
+  CharacterRepository,
+  CharacterSnapshot,
+  WordRepository,
+  WordSnapshot,
+  WordStorageBackend,
+} from "./types";
+export { StorageConflictError } from "./errors";
+export {
+  getCharacterRevision,
+  getWordRevision,
+  parseIfMatch,
+  toETag,
+} from "./revision";
+export {
+  createFileCharacterRepository,
+  createFileWordRepository,
+} from "./file";
+export {
+  createGitHubCharacterRepository,
+  createGitHubWordRepository,
+} from "./github";
+export {
+  createMemoryCharacterRepository,
+  createMemoryWordRepository,
+} from "./memory";
+
+const BACKENDS: WordStorageBackend[] = ["github", "file", "memory"];
+
+function hasGitHubConfig(env: NodeJS.ProcessEnv): boolean {
+  return Boolean(env.GITHUB_TOKEN && env.GITHUB_OWNER && env.GITHUB_REPO);
+}
+
+/**
+ * Picks the storage backend from `WORDS_STORAGE`. When unset, GitHub is used
+ * if its credentials are present, otherwise an in-memory store seeded with
+ * the sample words — and the choice is logged rather than silently applied.
+ */
+export function resolveWordStorageBackend(
+  env: NodeJS.ProcessEnv = process.env,
+): WordStorageBackend {
+  const configured = env.WORDS_STORAGE?.trim().toLowerCase();
+  if (configured) {
+    if (!BACKENDS.includes(configured as WordStorageBackend)) {
+      throw new Error(
+        `Invalid WORDS_STORAGE "${env.WORDS_STORAGE}". Expected one of: ${BACKENDS.join(", ")}.`,
+      );
+    }
+    return configured as WordStorageBackend;
+  }
+  return hasGitHubConfig(env) ? "github" : "memory";
+}
+
+export function createWordRepository(
+  env: NodeJS.ProcessEnv = process.env,
+): WordRepository {
+  const backend = resolveWordStorageBackend(env);
+  switch (backend) {
+    case "github":
+      return createGitHubWordRepository(
+        env.WORDS_JSON_PATH || "data/words.json",
+      );
+    case "file":
+      return createFileWordRepository(env.WORDS_FILE || "data/words.json");
+    case "memory":
+      if (!env.WORDS_STORAGE) {
+        console.warn(
+          "WORDS_STORAGE not set and GitHub is not configured: using in-memory sample words. Edits will be lost on restart.",
+        );
+      }
+      return createMemoryWordRepository(sampleWords);
+  }
+}
+
+/**
+ * Keeps the character inventory on the same backend as the words. Until a
+ * characters document is saved, the sample characters are served.
+ */
+export function createCharacterRepository(
+  env: NodeJS.ProcessEnv = process.env,
+): CharacterRepository {
+  switch (resolveWordStorageBackend(env)) {
+    case "github":
+      return createGitHubCharacterRepository(
+        env.CHARACTERS_JSON_PATH || "data/characters.json",
+        sampleCharacters,
+      );
+    case "file":
+      return createFileCharacterRepository(
+        env.CHARACTERS_FILE || "data/characters.json",
+        sampleCharacters,
+      );
+    case "memory":
+      return createMemoryCharacterRepository(sampleCharacters);
+  }
+}
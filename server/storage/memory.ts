@@ -0,0 +1,60 @@
+import type { Character, Word, WordTombstone } from "@shared/types";
+import { StorageConflictError } from "./errors";
+import type { CharacterRepository, WordRepository } from "./types";
+
+// A value held in process memory with a counter as its revision
+function createMemoryDocument<T>(initial: T) {
+  let value = structuredClone(initial);
+  let revision = 0;
+  return {
+    load() {
+      return { value: structuredClone(value), sha: String(revision) };
+    },
+    save(next: T, prevSha: string | null) {
+      if (prevSha !== String(revision)) throw new StorageConflictError();
+      value = structuredClone(next);
+      revision += 1;
+      return String(revision);
+    },
+  };
+}
+
+/**
+ * Keeps words in process memory. Used by tests and as the explicit demo
+ * backend; nothing survives a restart.
+ */
+export function createMemoryWordRepository(
+  initialWords: Word[] = [],
+): WordRepository {
+  const document = createMemoryDocument<{
+    words: Word[];
+    deleted: WordTombstone[];
+  }>({ words: initialWords, deleted: [] });
+  return {
+    backend: "memory",
+    async load() {
+      const { value, sha } = document.load();
+      return { ...value, sha };
+    },
+    async save(words, deleted, prevSha) {
+      return document.save({ words, deleted }, prevSha);
+    },
+  };
+}
+
+/** Keeps characters in process memory, like the memory word repository */
+export function createMemoryCharacterRepository(
+  initialCharacters: Character[] = [],
+): CharacterRepository {
+  const document = createMemoryDocument(initialCharacters);
+  return {
+    backend: "memory",
+    async load() {
+      const { value, sha } = document.load();
+      return { characters: value, sha };
+    },
+    async save(next, prevSha) {
+      return document.save(next, prevSha);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { createHash } from "crypto";
+import type { Character, Word } from "@shared/types";
+
+const hashRecord = (record: object) =>
+  createHash("sha1").update(JSON.stringify(record)).digest("hex");
+
+/** Content hash of a single word, used as its HTTP entity tag */
+export function getWordRevision(word: Word): string {
+  return hashRecord(word);
+}
+
+/** Content hash of a single character, used as its HTTP entity tag */
+export function getCharacterRevision(character: Character): string {
+  return hashRecord(character);
+}
+
+export function toETag(revision: string): string {
+  return `"${revision}"`;
+}
+
+/**
+ * Parses an If-Match header. Returns null when the header is absent,
+ * "*" for a wildcard, or the list of revisions it names.
+ */
+export function parseIfMatch(
+  header: string | undefined,
+): string[] | "*" | null {
+  if (!header) return null;
+  if (header.trim() === "*") return "*";
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, "").replace(/^"|"$/g, ""))
+    .filter(Boolean);
+}
@@ -0,0 +1,51 @@
+import type { Character, Word, WordTombstone } from "@shared/types";
+
+// Parsed JSON, or null for a missing or unreadable document
+function parseDocument(content: string | null, key: string): unknown {
+  if (!content) return null;
+  try {
+    return JSON.parse(content);
+  } catch (e) {
+    console.error(`Failed parsing ${key} document`, e);
+    return null;
+  }
+}
+
+// Accepts both a bare array and an export object holding the array under `key`
+function listIn<T>(data: unknown, key: string): T[] {
+  if (Array.isArray(data)) return data as T[];
+  if (Array.isArray((data as any)?.[key])) return (data as any)[key] as T[];
+  return [];
+}
+
+/**
+ * Accepts both a bare array and the `{ words: [...] }` export format. The
+ * object form also holds the tombstones of deleted words under `deleted`.
+ */
+export function parseWordsDocument(content: string | null): {
+  words: Word[];
+  deleted: WordTombstone[];
+} {
+  const data = parseDocument(content, "words");
+  return {
+    words: listIn<Word>(data, "words"),
+    deleted: Array.isArray(data) ? [] : listIn<WordTombstone>(data, "deleted"),
+  };
+}
+
+// Stays a bare array, as older deployments wrote it, until a word is deleted
+export function serializeWords(
+  words: Word[],
+  deleted: WordTombstone[] = [],
+): string {
+  return JSON.stringify(deleted.length ? { words, deleted } : words, null, 2);
+}
+
+// Accepts both a bare array and a `{ characters: [...] }` object
+export function parseCharactersDocument(content: string | null): Character[] {
+  return listIn<Character>(parseDocument(content, "characters"), "characters");
+}
+
+export function serializeCharacters(characters: Character[]): string {
+  return JSON.stringify(characters, null, 2);
+}
@@ -0,0 +1,60 @@
+import type { Character, Word, WordTombstone } from "@shared/types";
+import type { RepoFileChange } from "../routes/github";
+
+export type WordStorageBackend = "github" | "file" | "memory";
+
+export interface WordSnapshot {
+  words: Word[];
+  /** Words deleted so far, kept for the changes feed */
+  deleted: WordTombstone[];
+  /** Revision of the stored document, or null when nothing is stored yet */
+  sha: string | null;
+}
+
+/**
+ * Persistence for the dictionary word list.
+ * Backends store the whole list as one JSON document and hand out an opaque
+ * revision (`sha`) with every load so writers can detect concurrent edits.
+ */
+export interface WordRepository {
+  readonly backend: WordStorageBackend;
+  load(): Promise<WordSnapshot>;
+  /**
+   * Stores the words together with their tombstones. Throws
+   * `StorageConflictError` when `prevSha` is no longer current.
+   * `alongside` files are written in the same commit; only the GitHub
+   * backend takes them.
+   */
+  save(
+    words: Word[],
+    deleted: WordTombstone[],
+    prevSha: string | null,
+    message: string,
+    alongside?: RepoFileChange[],
+  ): Promise<string>;
+}
+
+export interface CharacterSnapshot {
+  characters: Character[];
+  /** Revision of the stored document, or null when nothing is stored yet */
+  sha: string | null;
+}
+
+/**
+ * Persistence for the character inventory, kept on the same backend as the
+ * words with the same revision semantics.
+ */
+export interface CharacterRepository {
+  readonly backend: WordStorageBackend;
+  load(): Promise<CharacterSnapshot>;
+  /**
+   * Throws `StorageConflictError` when `prevSha` is no longer current. Like
+   * words, `alongside` files go in the same commit on GitHub.
+   */
+  save(
+    characters: Character[],
+    prevSha: string | null,
+    message: string,
+    alongside?: RepoFileChange[],
+  ): Promise<string>;
+}
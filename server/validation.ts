@@ -0,0 +1,14 @@
+import type { ValidationErrorResponse } from "@shared/types";
+import { formatFieldErrors, type FieldErrors } from "../shared/schemas";
+
+/** 400 response for a payload that failed schema validation */
+export function validationFailure(errors: FieldErrors) {
+  return {
+    status: 400,
+    body: {
+      success: false,
+      error: `Invalid payload: ${formatFieldErrors(errors)}`,
+      field_errors: errors,
+    } satisfies ValidationErrorResponse,
+  };
+}
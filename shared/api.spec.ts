@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { buildRequest } from "./api";
+
+describe("buildRequest", () => {
+  it("fills and encodes path parameters", () => {
+    expect(
+      buildRequest("POST /words/:id/revert", { params: { id: "a/b" } }),
+    ).toEqual({ method: "POST", url: "/api/words/a%2Fb/revert" });
+  });
+
+  it("leaves out empty query values", () => {
+    expect(
+      buildRequest(
+        "GET /search",
+        { query: { q: "ghar", page: 2, fields: "", exact: undefined } },
+        "",
+      ),
+    ).toEqual({ method: "GET", url: "/search?q=ghar&page=2" });
+  });
+});
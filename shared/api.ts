@@ -4,9 +4,174 @@
  * and/or small pure JS functions that can be used on both client and server
  */
 
+import type {
+  ApiResponse,
+  AuditLogQuery,
+  AuthSession,
+  Character,
+  ContentManagementOperation,
+  SearchResponse,
+  Word,
+  WordBatchRequest,
+  WordChanges,
+  WordBatchResult,
+  WordImportRequest,
+  WordImportResult,
+  WordRevertRequest,
+} from "./types";
+
 /**
  * Example response type for /api/demo
  */
 export interface DemoResponse {
   message: string;
 }
+
+/** Body of POST /api/words: a word without an id, or with a chosen one */
+export type WordInput = Omit<Word, "id"> & { id?: string };
+
+export type CharacterInput = Omit<Character, "id"> & { id?: string };
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface UploadRequest {
+  fileName: string;
+  contentBase64: string;
+}
+
+/** Query string of GET /api/words/changes */
+export interface WordChangesQuery {
+  since?: string;
+}
+
+/** Query string of GET /api/search; see `SearchOptions` for the meaning */
+export interface SearchQuery {
+  q: string;
+  fields?: string;
+  page?: number;
+  per_page?: number;
+  exact?: boolean;
+  fuzzy?: boolean;
+}
+
+/**
+ * Every /api route, keyed by method and path, with its body, query and
+ * response. The API client is built from this table, so changing a route's
+ * types here is checked at every call site.
+ */
+export interface ApiRoutes {
+  "GET /ping": { response: { message: string } };
+  "GET /demo": { response: DemoResponse };
+  "POST /auth/login": {
+    body: LoginRequest;
+    response: ApiResponse<AuthSession>;
+  };
+  "GET /auth/me": {
+    response: ApiResponse<Pick<AuthSession, "username" | "role">>;
+  };
+  "GET /health": { response: { success: boolean; storage: string } };
+  "GET /words": { response: ApiResponse<Word[]> };
+  "GET /words/changes": {
+    query: WordChangesQuery;
+    response: ApiResponse<WordChanges>;
+  };
+  "GET /words/:id": { response: ApiResponse<Word> };
+  "POST /words": { body: WordInput; response: ApiResponse<Word> };
+  "PUT /words/:id": { body: Partial<Word>; response: ApiResponse<Word> };
+  "POST /words/batch": {
+    body: WordBatchRequest;
+    response: ApiResponse<WordBatchResult>;
+  };
+  "POST /words/import": {
+    body: WordImportRequest;
+    response: ApiResponse<WordImportResult>;
+  };
+  "POST /words/:id/revert": {
+    body: WordRevertRequest;
+    response: ApiResponse<Word>;
+  };
+  "DELETE /words/:id": { response: ApiResponse<never> };
+  "GET /characters": { response: ApiResponse<Character[]> };
+  "GET /characters/:id": { response: ApiResponse<Character> };
+  "POST /characters": {
+    body: CharacterInput;
+    response: ApiResponse<Character>;
+  };
+  "PUT /characters/:id": {
+    body: Partial<Character>;
+    response: ApiResponse<Character>;
+  };
+  "DELETE /characters/:id": { response: ApiResponse<never> };
+  "GET /search": { query: SearchQuery; response: ApiResponse<SearchResponse> };
+  "GET /audit": {
+    query: AuditLogQuery;
+    response: ApiResponse<ContentManagementOperation[]>;
+  };
+  "POST /upload/:kind": {
+    body: UploadRequest;
+    response: { success: boolean; url?: string; error?: string };
+  };
+  "POST /rebuild": { response: ApiResponse<never> };
+}
+
+export type ApiRoute = keyof ApiRoutes;
+
+// "/words/:id/revert" → { id: string }
+type PathParams<Path extends string> =
+  Path extends `${string}:${infer Name}/${infer Rest}`
+    ? { [K in Name]: string } & PathParams<`/${Rest}`>
+    : Path extends `${string}:${infer Name}`
+      ? { [K in Name]: string }
+      : {};
+
+export type RouteParams<R extends ApiRoute> = PathParams<R>;
+export type RouteBody<R extends ApiRoute> = ApiRoutes[R] extends {
+  body: infer B;
+}
+  ? B
+  : never;
+export type RouteQuery<R extends ApiRoute> = ApiRoutes[R] extends {
+  query: infer Q;
+}
+  ? Q
+  : never;
+export type RouteResponse<R extends ApiRoute> = ApiRoutes[R]["response"];
+
+/** Arguments for a route: path parameters and body only where it has them */
+export type RouteRequest<R extends ApiRoute> = {
+  headers?: Record<string, string>;
+} & (keyof RouteParams<R> extends never
+  ? { params?: undefined }
+  : { params: RouteParams<R> }) &
+  ([RouteBody<R>] extends [never]
+    ? { body?: undefined }
+    : { body: RouteBody<R> }) &
+  ([RouteQuery<R>] extends [never]
+    ? { query?: undefined }
+    : { query?: RouteQuery<R> });
+
+/**
+ * Method and URL for a route under `baseUrl`. Path parameters are encoded;
+ * query values that are undefined or empty are left out.
+ */
+export function buildRequest(
+  route: ApiRoute,
+  request: { params?: unknown; query?: unknown },
+  baseUrl = "/api",
+): { method: string; url: string } {
+  const [method, pattern] = route.split(" ");
+  const params = (request.params ?? {}) as Record<string, string>;
+  const query = (request.query ?? {}) as Record<string, unknown>;
+  const path = pattern.replace(/:(\w+)/g, (_, name: string) =>
+    encodeURIComponent(params[name]),
+  );
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== "") search.set(key, String(value));
+  }
+  const qs = search.toString();
+  return { method, url: `${baseUrl}${path}${qs ? `?${qs}` : ""}` };
+}
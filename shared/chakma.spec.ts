@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  findUnnormalizedFields,
+  indexOfCluster,
+  isNormalizedChakma,
+  normalizeChakma,
+} from "./chakma";
+import { searchDictionary } from "./search";
+import type { Word } from "./types";
+
+const KA = "\u{11107}";
+const TA = "\u{11116}";
+const VOWEL_A = "\u{11127}";
+const VOWEL_I = "\u{11128}";
+const O_MARK = "\u{11131}";
+const VOWEL_O = "\u{1112E}";
+const ANUSVARA = "\u{11101}";
+const VIRAMA = "\u{11133}";
+const MAAYYAA = "\u{11134}";
+
+describe("normalizeChakma", () => {
+  it("puts vowel signs before anusvara and drops duplicates", () => {
+    expect(normalizeChakma(KA + ANUSVARA + VOWEL_I)).toBe(
+      KA + VOWEL_I + ANUSVARA,
+    );
+    expect(normalizeChakma(KA + VOWEL_I + VOWEL_I)).toBe(KA + VOWEL_I);
+  });
+
+  it("composes two-part vowels typed in either order", () => {
+    expect(normalizeChakma(KA + O_MARK + VOWEL_A)).toBe(KA + VOWEL_O);
+    expect(normalizeChakma(KA + VOWEL_A + O_MARK)).toBe(KA + VOWEL_O);
+  });
+
+  it("maps legacy virama + ZWNJ to maayyaa", () => {
+    expect(normalizeChakma(KA + VIRAMA + "\u200C")).toBe(KA + MAAYYAA);
+  });
+
+  it("leaves other scripts alone", () => {
+    const mixed = `café ${KA + ANUSVARA + VOWEL_I} a\u200Cb`;
+    expect(normalizeChakma(mixed)).toBe(
+      `café ${KA + VOWEL_I + ANUSVARA} a\u200Cb`,
+    );
+    expect(isNormalizedChakma("today")).toBe(true);
+  });
+});
+
+describe("indexOfCluster", () => {
+  it("only matches on cluster boundaries", () => {
+    expect(indexOfCluster(KA + VOWEL_I, KA)).toBe(-1);
+    expect(indexOfCluster(KA + VIRAMA + TA, TA)).toBe(-1);
+    expect(indexOfCluster(TA + KA + VOWEL_I, KA + VOWEL_I)).toBe(2);
+    expect(indexOfCluster(KA + TA, KA)).toBe(0);
+  });
+});
+
+describe("normalized search", () => {
+  const word: Word = {
+    id: "1",
+    chakma_word_script: KA + VOWEL_O + ANUSVARA,
+    romanized_pronunciation: "kong",
+    english_translation: "test",
+    example_sentence: "",
+    etymology: "",
+  };
+
+  it("finds a word whatever order its signs were typed in", () => {
+    const query = KA + ANUSVARA + VOWEL_A + O_MARK;
+    const [result] = searchDictionary([word], { query });
+    expect(result?.match_kinds?.chakma_word_script).toBe("exact");
+  });
+
+  it("flags the fields typed without normalization", () => {
+    const stale = {
+      ...word,
+      chakma_word_script: KA + ANUSVARA + VOWEL_I,
+      synonyms: [
+        { term: KA + ANUSVARA + VOWEL_I, language: "chakma" as const },
+      ],
+    };
+    expect(findUnnormalizedFields(word)).toEqual([]);
+    expect(findUnnormalizedFields(stale)).toEqual([
+      "chakma_word_script",
+      "synonyms",
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Chakma script (U+11100–U+1114F) helpers: code point classes and a
+ * normalizer that gives every spelling of a word one canonical encoding.
+ */
+
+import type { Word } from "./types";
+
+export const CHAKMA_VIRAMA = "\u{11133}";
+export const CHAKMA_MAAYYAA = "\u{11134}"; // visible vowel killer
+
+const ZWNJ = "\u200C";
+
+const cp = (ch: string) => ch.codePointAt(0)!;
+
+export function isChakma(ch: string): boolean {
+  const code = cp(ch);
+  return code >= 0x11100 && code <= 0x1114f;
+}
+
+/** Consonants KAA–HAA plus the later LHAA and VAA */
+export function isChakmaConsonant(ch: string): boolean {
+  const code = cp(ch);
+  return (
+    (code >= 0x11107 && code <= 0x11126) || code === 0x11144 || code === 0x11147
+  );
+}
+
+/** Independent vowels A, I, U and E */
+export function isChakmaIndependentVowel(ch: string): boolean {
+  const code = cp(ch);
+  return code >= 0x11103 && code <= 0x11106;
+}
+
+/** Letters that can carry vowel signs */
+export function isChakmaLetter(ch: string): boolean {
+  return isChakmaConsonant(ch) || isChakmaIndependentVowel(ch);
+}
+
+export function isChakmaDigit(ch: string): boolean {
+  const code = cp(ch);
+  return code >= 0x11136 && code <= 0x1113f;
+}
+
+/** Candrabindu, anusvara and visarga, written after any vowel sign */
+export function isChakmaSign(ch: string): boolean {
+  const code = cp(ch);
+  return code >= 0x11100 && code <= 0x11102;
+}
+
+export function isChakmaVowelSign(ch: string): boolean {
+  const code = cp(ch);
+  return (
+    (code >= 0x11127 && code <= 0x11132) || code === 0x11145 || code === 0x11146
+  );
+}
+
+export function isChakmaVirama(ch: string): boolean {
+  return ch === CHAKMA_VIRAMA || ch === CHAKMA_MAAYYAA;
+}
+
+/** Marks that attach to the preceding letter and never start a cluster */
+export function isChakmaMark(ch: string): boolean {
+  return isChakmaSign(ch) || isChakmaVowelSign(ch) || isChakmaVirama(ch);
+}
+
+// Canonical order of marks on one letter: virama, the first part of a
+// two-part vowel (O and AU marks), other vowel signs, then the signs
+function markRank(ch: string): number {
+  if (isChakmaVirama(ch)) return 0;
+  const code = cp(ch);
+  if (code === 0x11131 || code === 0x11132) return 1;
+  if (isChakmaVowelSign(ch)) return 2;
+  return 3;
+}
+
+function normalizeRun(run: string): string {
+  const chars = [
+    ...run
+      .normalize("NFD")
+      // Older input methods wrote the visible killer as virama + ZWNJ
+      .split(CHAKMA_VIRAMA + ZWNJ)
+      .join(CHAKMA_MAAYYAA)
+      .replace(/[\u200C\u200D]/g, ""),
+  ];
+
+  const out: string[] = [];
+  let marks: string[] = [];
+  const flush = () => {
+    marks.sort((a, b) => markRank(a) - markRank(b));
+    // A mark typed twice on the same letter renders the same as once
+    out.push(...marks.filter((m, i) => m !== marks[i - 1]));
+    marks = [];
+  };
+  for (const ch of chars) {
+    if (isChakmaMark(ch)) {
+      marks.push(ch);
+    } else {
+      flush();
+      out.push(ch);
+    }
+  }
+  flush();
+  // Recomposes O (U+11131 U+11127) and AU (U+11132 U+11127) vowel signs
+  return out.join("").normalize("NFC");
+}
+
+/**
+ * Canonicalizes Chakma text: vowel signs in a fixed order with two-part
+ * vowels composed, duplicate marks dropped, and legacy virama + ZWNJ
+ * spellings mapped to MAAYYAA. The block has no nukta; dotted letters are
+ * separate code points and pass through unchanged. Text outside the block,
+ * and joiners outside Chakma runs, is left as is.
+ */
+export function normalizeChakma(text: string): string {
+  if (!text) return text;
+  return text.replace(/[\u{11100}-\u{1114F}\u200C\u200D]+/gu, (run) =>
+    [...run].some(isChakma) ? normalizeRun(run) : run,
+  );
+}
+
+export function isNormalizedChakma(text: string): boolean {
+  return normalizeChakma(text) === text;
+}
+
+const firstChar = (text: string) => String.fromCodePoint(text.codePointAt(0)!);
+
+function lastChar(text: string): string | undefined {
+  const chars = [...text.slice(-2)];
+  return chars[chars.length - 1];
+}
+
+/**
+ * Finds `query` in `text` on cluster boundaries only, so a consonant does
+ * not match the bare letter of a consonant + vowel sign cluster or one half
+ * of a conjunct. Expects both strings normalized; returns -1 when absent.
+ */
+export function indexOfCluster(text: string, query: string): number {
+  if (!query) return -1;
+  for (let i = text.indexOf(query); i !== -1; i = text.indexOf(query, i + 1)) {
+    const end = i + query.length;
+    const prev = lastChar(text.slice(0, i));
+    const startsInside =
+      isChakmaMark(firstChar(query)) || (!!prev && isChakmaVirama(prev));
+    const endsInside =
+      end < text.length &&
+      (isChakmaMark(firstChar(text.slice(end))) ||
+        isChakmaVirama(lastChar(query)!));
+    if (!startsInside && !endsInside) return i;
+  }
+  return -1;
+}
+
+type ScriptFields = Pick<
+  Word,
+  | "chakma_word_script"
+  | "example_sentence"
+  | "etymology"
+  | "synonyms"
+  | "antonyms"
+>;
+
+const TEXT_FIELDS = [
+  "chakma_word_script",
+  "example_sentence",
+  "etymology",
+] as const;
+
+/** Normalizes the Chakma text in every free-text field of a word (or patch) */
+export function normalizeWordScript<T extends Partial<ScriptFields>>(
+  word: T,
+): T {
+  const next = { ...word };
+  for (const field of TEXT_FIELDS) {
+    if (typeof next[field] === "string") {
+      (next as Partial<ScriptFields>)[field] = normalizeChakma(next[field]);
+    }
+  }
+  for (const field of ["synonyms", "antonyms"] as const) {
+    if (Array.isArray(next[field])) {
+      (next as Partial<ScriptFields>)[field] = next[field]!.map((t) => ({
+        ...t,
+        term: normalizeChakma(t.term),
+      }));
+    }
+  }
+  return next;
+}
+
+/** Fields of a word (or patch) whose Chakma text is not in normalized form */
+export function findUnnormalizedFields(
+  word: Partial<ScriptFields>,
+): (keyof ScriptFields)[] {
+  const fields: (keyof ScriptFields)[] = TEXT_FIELDS.filter(
+    (field) =>
+      typeof word[field] === "string" && !isNormalizedChakma(word[field]),
+  );
+  for (const field of ["synonyms", "antonyms"] as const) {
+    if (word[field]?.some((t) => !isNormalizedChakma(t.term))) {
+      fields.push(field);
+    }
+  }
+  return fields;
+}
@@ -0,0 +1,21 @@
+/**
+ * Editor roles, shared by the API and the Developer Console.
+ * Each role includes the permissions of the ones before it.
+ */
+
+export const EDITOR_ROLES = ["contributor", "reviewer", "admin"] as const;
+
+export type EditorRole = (typeof EDITOR_ROLES)[number];
+
+export function isEditorRole(value: unknown): value is EditorRole {
+  return EDITOR_ROLES.includes(value as EditorRole);
+}
+
+/** True when `role` grants at least the permissions of `required` */
+export function hasRole(
+  role: EditorRole | null | undefined,
+  required: EditorRole,
+): boolean {
+  if (!role) return false;
+  return EDITOR_ROLES.indexOf(role) >= EDITOR_ROLES.indexOf(required);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { editDistance, foldRomanized, romanizeChakma } from "./romanization";
+
+describe("foldRomanized", () => {
+  it("folds diacritics and doubled letters", () => {
+    expect(foldRomanized("pôr")).toBe("por");
+    expect(foldRomanized("Porr")).toBe("por");
+    expect(foldRomanized("paani")).toBe(foldRomanized("pāni"));
+  });
+});
+
+describe("editDistance", () => {
+  it("counts edits and stops past the bound", () => {
+    expect(editDistance("pani", "pani")).toBe(0);
+    expect(editDistance("pani", "pqni")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("kitten", "sitting", 1)).toBe(2);
+  });
+});
+
+describe("romanizeChakma", () => {
+  it("applies the inherent vowel, vowel signs and killers", () => {
+    expect(romanizeChakma("𑄃𑄘𑄮")).toBe("ado");
+    expect(romanizeChakma("𑄎𑄚𑄴")).toBe("jan");
+    expect(romanizeChakma("𑄛𑄚𑄨")).toBe("pani");
+    expect(romanizeChakma("\u{11107}\u{11133}\u{11116}\u{11127}")).toBe("kto");
+  });
+
+  it("drops the vowel of a word-final consonant", () => {
+    expect(romanizeChakma("𑄛𑄧𑄢")).toBe("por");
+    expect(romanizeChakma("𑄞𑄛 𑄇")).toBe("bhap ka");
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Helpers for generating and comparing romanized Chakma, whose spelling is
+ * not standardized: "por", "pôr" and "porr" all name the same word.
+ */
+
+import { CHAKMA_MAAYYAA, isChakmaConsonant } from "./chakma";
+import {
+  DEFAULT_TRANSLITERATION,
+  chakmaToRoman,
+  type TransliterationRule,
+} from "./transliteration";
+
+/**
+ * Reduces a romanized spelling to a comparison key: lowercase, diacritics
+ * removed (ô → o, ā → a) and repeated letters collapsed (aa → a, rr → r).
+ */
+export function foldRomanized(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/(\p{L})\1+/gu, "$1")
+    .trim();
+}
+
+/**
+ * Levenshtein distance between `a` and `b`, or `max + 1` as soon as it is
+ * known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Edits tolerated for a folded query: none for very short ones */
+export function maxTypos(folded: string): number {
+  // Three-letter words are common, so one typo would match most of them
+  if (folded.length <= 3) return 0;
+  return folded.length <= 6 ? 1 : 2;
+}
+
+// Pronunciations are plain ASCII: the transliteration table's diacritics
+// and sign spellings are replaced by how they are said
+const SPOKEN: Record<string, string> = {
+  ô: "o",
+  ṃ: "ng",
+  ḥ: "h",
+  "~": "n",
+  "|": ".",
+  "||": ".",
+};
+
+const PRONUNCIATION_RULES: TransliterationRule[] = DEFAULT_TRANSLITERATION.map(
+  (rule) =>
+    rule.roman in SPOKEN ? { ...rule, roman: SPOKEN[rule.roman] } : rule,
+);
+
+/**
+ * Generates the romanized pronunciation of Chakma text. Consonants carry
+ * the inherent "a" unless a vowel sign replaces it or a virama kills it;
+ * the last consonant of a word is silent, as in 𑄛𑄧𑄢 "por". Deterministic,
+ * so it can both pre-fill new words and check existing ones.
+ */
+export function romanizeChakma(text: string): string {
+  return text.replace(/[\u{11100}-\u{1114F}]+/gu, (word) => {
+    const chars = [...word];
+    const last = chars[chars.length - 1];
+    // A single consonant is a syllable of its own and keeps its vowel
+    const silent = chars.length > 1 && isChakmaConsonant(last);
+    return chakmaToRoman(
+      silent ? word + CHAKMA_MAAYYAA : word,
+      PRONUNCIATION_RULES,
+    );
+  });
+}
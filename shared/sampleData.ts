@@ -4,6 +4,7 @@
  */
 
 import { Word, Character, CharacterType } from './types';
+import { searchDictionary } from './search';
 
 // Sample dictionary words with comprehensive data
 export const sampleWords: Word[] = [
@@ -357,25 +358,19 @@ export const findCharacterById = (id: string): Character | undefined => {
   return sampleCharacters.find(char => char.id === id);
 };
 
+// Best matches first; see searchDictionary for the ranking
 export const searchWords = (query: string, dataset: Word[] = sampleWords): Word[] => {
-  const lowerQuery = query.toLowerCase();
-  return dataset.filter(word => 
-    word.english_translation.toLowerCase().includes(lowerQuery) ||
-    word.chakma_word_script.includes(query) ||
-    word.romanized_pronunciation.toLowerCase().includes(lowerQuery) ||
-    word.synonyms?.some(syn => syn.term.toLowerCase().includes(lowerQuery)) ||
-    word.antonyms?.some(ant => ant.term.toLowerCase().includes(lowerQuery))
-  );
+  return searchDictionary(dataset, { query }).map(result => result.word);
 };
 
-export const getRandomWords = (count: number): Word[] => {
-  const shuffled = [...sampleWords].sort(() => 0.5 - Math.random());
-  return shuffled.slice(0, Math.min(count, sampleWords.length));
+export const getRandomWords = (count: number, words: Word[] = sampleWords): Word[] => {
+  const shuffled = [...words].sort(() => 0.5 - Math.random());
+  return shuffled.slice(0, Math.min(count, words.length));
 };
 
-export const getRandomCharacters = (count: number): Character[] => {
-  const shuffled = [...sampleCharacters].sort(() => 0.5 - Math.random());
-  return shuffled.slice(0, Math.min(count, sampleCharacters.length));
+export const getRandomCharacters = (count: number, characters: Character[] = sampleCharacters): Character[] => {
+  const shuffled = [...characters].sort(() => 0.5 - Math.random());
+  return shuffled.slice(0, Math.min(count, characters.length));
 };
 
 // Mock AI translation suggestions
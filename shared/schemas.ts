@@ -0,0 +1,280 @@
+/**
+ * Zod schemas for dictionary payloads, enforced by the API on every write.
+ * Objects are strict, so unknown keys are rejected instead of being stored.
+ */
+
+import { z } from "zod";
+import type { LoginRequest } from "./api";
+import type {
+  Character,
+  CharacterType,
+  ExplanationMedia,
+  RelatedTerm,
+  Word,
+  WordBatchRequest,
+  WordImportRequest,
+  WordRevertRequest,
+} from "./types";
+import { WORD_IMPORT_FIELDS } from "./wordImport";
+
+export const CHARACTER_TYPES = [
+  "alphabet",
+  "vowel",
+  "conjunct",
+  "diacritic",
+  "ordinal",
+  "symbol",
+] as const satisfies readonly CharacterType[];
+
+// zod's inferred types need strictNullChecks, which this project does not
+// enable: without it every field comes out optional. So the interfaces in
+// ./types stay the declared types, and each schema is checked against its
+// interface field by field with optionality set aside.
+type Shape<T> = T extends readonly (infer E)[]
+  ? Shape<E>[]
+  : T extends object
+    ? { [K in keyof T]-?: Shape<T[K]> }
+    : T;
+type Matches<A, B> = [Shape<A>] extends [Shape<B>]
+  ? [Shape<B>] extends [Shape<A>]
+    ? true
+    : false
+  : false;
+
+/** A schema whose parsed value is a `T` */
+export type TypedSchema<T, S extends z.ZodTypeAny = z.ZodTypeAny> = S & {
+  readonly _interface?: T;
+};
+
+/**
+ * Ties `schema` to the interface `T`. Fails `tsc` when a field is added to
+ * one but not the other, or when their types differ.
+ */
+function typed<T>() {
+  return <S extends z.ZodTypeAny>(
+    schema: S & (Matches<z.output<S>, T> extends true ? unknown : never),
+  ) => schema as TypedSchema<T, S>;
+}
+
+const requiredText = (label: string) =>
+  z
+    .string({ required_error: `${label} is required` })
+    .trim()
+    .min(1, `${label} is required`);
+
+// Media is linked and embedded by the app, so only web URLs are accepted
+const webUrl = z
+  .string()
+  .trim()
+  .url("Must be a URL")
+  .refine((value) => /^https?:\/\//i.test(value), "Must be an http(s) URL");
+
+// Forms send "" for a cleared URL
+const optionalWebUrl = z.preprocess(
+  (value) => (value === "" ? undefined : value),
+  webUrl.optional(),
+);
+
+// Paths under /api/words and /api/characters that an id would shadow
+const RESERVED_IDS = ["changes", "batch", "import"];
+
+// A client-chosen id becomes a URL path segment, e.g. /api/words/:id
+const recordId = z
+  .string()
+  .regex(
+    /^[A-Za-z0-9][A-Za-z0-9_-]*$/,
+    "Id must be letters, digits, - and _, starting with a letter or digit",
+  )
+  .refine((id) => !RESERVED_IDS.includes(id), {
+    message: `Id must not be one of: ${RESERVED_IDS.join(", ")}`,
+  });
+
+// Set by the server; accepted so a fetched record can be sent back as is.
+// Only a create's id is used; the routes ignore the rest.
+const serverFields = {
+  id: recordId.optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+};
+
+export const relatedTermSchema = typed<RelatedTerm>()(
+  z
+    .object({
+      term: requiredText("Term"),
+      language: z.enum(["chakma", "english"], {
+        errorMap: () => ({ message: 'Language must be "chakma" or "english"' }),
+      }),
+    })
+    .strict(),
+);
+
+export const explanationMediaSchema = typed<ExplanationMedia>()(
+  z
+    .object({
+      type: z.enum(["url", "image"], {
+        errorMap: () => ({ message: 'Type must be "url" or "image"' }),
+      }),
+      value: webUrl,
+    })
+    .strict(),
+);
+
+export const wordSchema = typed<Word>()(
+  z
+    .object({
+      ...serverFields,
+      chakma_word_script: requiredText("Chakma script"),
+      romanized_pronunciation: requiredText("Romanized pronunciation"),
+      english_translation: requiredText("English translation"),
+      audio_pronunciation_url: optionalWebUrl,
+      synonyms: z.array(relatedTermSchema).optional(),
+      antonyms: z.array(relatedTermSchema).optional(),
+      example_sentence: z.string().optional(),
+      etymology: z.string().optional(),
+      explanation_media: explanationMediaSchema.optional(),
+      is_verified: z.boolean().optional(),
+    })
+    .strict(),
+);
+
+/** PUT bodies: any subset of the word's fields */
+export const wordPatchSchema = typed<Partial<Word>>()(
+  // The id of an existing record is ignored, so it is not checked either
+  wordSchema.partial().extend({ id: z.string().optional() }),
+);
+
+export const wordRevertRequestSchema = typed<WordRevertRequest>()(
+  z
+    .object({
+      entry_id: requiredText("entry_id"),
+      version: z.enum(["before", "after"]).optional(),
+    })
+    .strict(),
+);
+
+export const wordImportRequestSchema = typed<WordImportRequest>()(
+  z
+    .object({
+      content: z
+        .string({ required_error: "content is required" })
+        .min(1, "content is required"),
+      delimiter: z.enum([",", "\t"]).optional(),
+      mapping: z.array(z.enum(WORD_IMPORT_FIELDS).nullable()).optional(),
+      on_duplicate: z.enum(["skip", "update"]).optional(),
+      dry_run: z.boolean().optional(),
+    })
+    .strict(),
+);
+
+export const MAX_BATCH_OPERATIONS = 200;
+
+export const wordBatchRequestSchema = typed<WordBatchRequest>()(
+  z
+    .object({
+      operations: z
+        .array(
+          z.discriminatedUnion("op", [
+            z.object({ op: z.literal("create"), word: wordSchema }).strict(),
+            z
+              .object({
+                op: z.literal("update"),
+                id: requiredText("id"),
+                changes: wordPatchSchema,
+                revision: z.string().optional(),
+              })
+              .strict(),
+            z
+              .object({
+                op: z.literal("delete"),
+                id: requiredText("id"),
+                revision: z.string().optional(),
+              })
+              .strict(),
+          ]),
+        )
+        .min(1, "At least one operation is required")
+        .max(
+          MAX_BATCH_OPERATIONS,
+          `At most ${MAX_BATCH_OPERATIONS} operations per batch`,
+        ),
+    })
+    .strict(),
+);
+
+export const loginRequestSchema = typed<LoginRequest>()(
+  z
+    .object({
+      username: requiredText("username"),
+      password: z
+        .string({
+          required_error: "password is required",
+          invalid_type_error: "password must be a string",
+        })
+        .min(1, "password is required"),
+    })
+    .strict(),
+);
+
+export const characterSchema = typed<Character>()(
+  z
+    .object({
+      ...serverFields,
+      character_script: requiredText("Character script"),
+      character_type: z.enum(CHARACTER_TYPES, {
+        errorMap: () => ({
+          message: `Type must be one of: ${CHARACTER_TYPES.join(", ")}`,
+        }),
+      }),
+      romanized_name: requiredText("Romanized name"),
+      transliteration: z.string().trim().optional(),
+      description: z.string().optional(),
+      audio_pronunciation_url: optionalWebUrl,
+    })
+    .strict(),
+);
+
+export const characterPatchSchema = typed<Partial<Character>>()(
+  characterSchema.partial().extend({ id: z.string().optional() }),
+);
+
+/** Error message per field, keyed by its dotted path ("synonyms.0.language") */
+export type FieldErrors = Record<string, string>;
+
+/** Either the parsed value or the errors that rejected it */
+export interface ValidationResult<T> {
+  data?: T;
+  errors?: FieldErrors;
+}
+
+/**
+ * Parses `value`, collecting the first message for each offending field.
+ * The result has the interface the schema was checked against.
+ */
+export function validate<T>(
+  schema: TypedSchema<T>,
+  value: unknown,
+): ValidationResult<T> {
+  const result = schema.safeParse(value);
+  if (result.success) return { data: result.data as T };
+  const errors: FieldErrors = {};
+  for (const issue of result.error.issues) {
+    const paths =
+      issue.code === "unrecognized_keys"
+        ? issue.keys.map((key) => [...issue.path, key].join("."))
+        : [issue.path.join(".")];
+    const message =
+      issue.code === "unrecognized_keys" ? "Unknown field" : issue.message;
+    for (const path of paths) {
+      const key = path || "body";
+      if (!(key in errors)) errors[key] = message;
+    }
+  }
+  return { errors };
+}
+
+/** One-line summary for `ApiResponse.error` */
+export function formatFieldErrors(errors: FieldErrors): string {
+  return Object.entries(errors)
+    .map(([path, message]) => `${path}: ${message}`)
+    .join("; ");
+}
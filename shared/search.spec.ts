@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { matchTerm, searchDictionary, suggestQuery } from "./search";
+import type { Word } from "./types";
+
+const word = (
+  id: string,
+  romanized: string,
+  english: string,
+  synonyms: string[] = [],
+): Word => ({
+  id,
+  chakma_word_script: `script-${id}`,
+  romanized_pronunciation: romanized,
+  english_translation: english,
+  synonyms: synonyms.map((term) => ({ term, language: "english" })),
+  example_sentence: "",
+  etymology: "",
+});
+
+const words = [
+  word("1", "boran", "grandmother"),
+  word("2", "kha", "to run away", ["ran"]),
+  word("3", "ranga", "red"),
+  word("4", "ran", "cook"),
+  word("5", "sal", "to cook rice"),
+];
+
+const ids = (query: string) =>
+  searchDictionary(words, { query }).map((r) => r.word.id);
+
+describe("matchTerm", () => {
+  it("grades matches from exact to substring", () => {
+    expect(matchTerm("ran", "ran")).toBe("exact");
+    expect(matchTerm("ranga", "ran")).toBe("prefix");
+    expect(matchTerm("to cook rice", "cook")).toBe("word");
+    expect(matchTerm("boran", "ran")).toBe("substring");
+    expect(matchTerm("cook", "ran")).toBeNull();
+  });
+});
+
+describe("searchDictionary", () => {
+  it("ranks exact, prefix, synonym and substring hits in that order", () => {
+    expect(ids("ran")).toEqual(["4", "3", "2", "1"]);
+  });
+
+  it("ranks whole-word English matches above substrings", () => {
+    expect(ids("cook")).toEqual(["4", "5"]);
+    expect(ids("run")).toEqual(["2"]);
+  });
+
+  it("explains why each result matched", () => {
+    const [result] = searchDictionary(words, { query: "Ran" });
+    expect(result.matched_fields).toEqual(["romanized_pronunciation"]);
+    expect(result.match_kinds).toEqual({ romanized_pronunciation: "exact" });
+  });
+
+  it("honours exact_match", () => {
+    const results = searchDictionary(words, {
+      query: "ran",
+      exact_match: true,
+    });
+    expect(results.map((r) => r.word.id)).toEqual(["4", "2"]);
+  });
+});
+
+describe("fuzzy romanized search", () => {
+  const dictionary = [
+    word("1", "por", "house"),
+    word("2", "pani", "water"),
+    word("3", "jan", "person"),
+  ];
+
+  it("matches spelling variants and small typos", () => {
+    for (const query of ["pôr", "porr", "paani", "pany"]) {
+      const [result] = searchDictionary(dictionary, { query });
+      expect(result?.match_kinds).toEqual({ romanized_pronunciation: "fuzzy" });
+    }
+    expect(searchDictionary(dictionary, { query: "jon" })).toEqual([]);
+    expect(
+      searchDictionary(dictionary, { query: "porr", fuzzy: false }),
+    ).toEqual([]);
+  });
+
+  it("suggests a correction only without direct hits", () => {
+    const suggest = (query: string) =>
+      suggestQuery(dictionary, query, searchDictionary(dictionary, { query }));
+    expect(suggest("pôr")).toBe("por");
+    expect(suggest("jon")).toBe("jan");
+    expect(suggest("watr")).toBe("water");
+    expect(suggest("pani")).toBeNull();
+    expect(suggest("xyzzy")).toBeNull();
+  });
+});
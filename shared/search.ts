@@ -0,0 +1,212 @@
+/**
+ * Dictionary search, shared by GET /api/search and the offline fallback in
+ * the Dictionary page.
+ */
+
+import type {
+  PaginatedResponse,
+  SearchField,
+  SearchMatchKind,
+  SearchOptions,
+  SearchResult,
+  Word,
+} from "./types";
+import { indexOfCluster, isChakma, normalizeChakma } from "./chakma";
+import { editDistance, foldRomanized, maxTypos } from "./romanization";
+
+export const SEARCH_FIELDS: SearchField[] = [
+  "chakma_word_script",
+  "romanized_pronunciation",
+  "english_translation",
+  "synonyms",
+  "antonyms",
+];
+
+export const DEFAULT_PER_PAGE = 20;
+export const MAX_PER_PAGE = 100;
+
+export function isSearchField(value: string): value is SearchField {
+  return SEARCH_FIELDS.includes(value as SearchField);
+}
+
+// Chakma text is compared in normalized form; everything else
+// case-insensitively
+function fieldTerms(word: Word, field: SearchField): string[] {
+  switch (field) {
+    case "chakma_word_script":
+      return [normalizeChakma(word.chakma_word_script)];
+    case "synonyms":
+    case "antonyms":
+      return (word[field] ?? []).map((t) =>
+        normalizeChakma(t.term.toLowerCase()),
+      );
+    default:
+      return [word[field].toLowerCase()];
+  }
+}
+
+const MATCH_POINTS: Record<SearchMatchKind, number> = {
+  exact: 100,
+  prefix: 60,
+  word: 50,
+  substring: 20,
+  fuzzy: 40, // less 10 per typo
+};
+
+// A hit on the word itself counts more than one on a related term
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  chakma_word_script: 1,
+  romanized_pronunciation: 1,
+  english_translation: 1,
+  synonyms: 0.5,
+  antonyms: 0.3,
+};
+
+// Added per matching field beyond the best one
+const EXTRA_FIELD_BONUS = 5;
+
+/** Strongest way `query` matches `term`, or null when it does not */
+export function matchTerm(term: string, query: string): SearchMatchKind | null {
+  if (term === query) return "exact";
+  // Chakma hits must not split a letter from its vowel signs or virama
+  const index = [...query].some(isChakma)
+    ? indexOfCluster(term, query)
+    : term.indexOf(query);
+  if (index === -1) return null;
+  if (index === 0) return "prefix";
+  // Whole word inside a phrase, e.g. "cook" in "to cook"
+  if (term.split(/[^\p{L}\p{M}\p{N}]+/u).includes(query)) return "word";
+  return "substring";
+}
+
+const strongest = (a: SearchMatchKind | null, b: SearchMatchKind | null) =>
+  !a || (b && MATCH_POINTS[b] > MATCH_POINTS[a]) ? b : a;
+
+/**
+ * Typos between a romanized term and query once spelling variants are
+ * folded away, or null when there are more than the query tolerates.
+ */
+export function romanizedTypos(term: string, query: string): number | null {
+  const folded = foldRomanized(query);
+  if (!folded) return null;
+  const max = maxTypos(folded);
+  const distance = editDistance(foldRomanized(term), folded, max);
+  return distance <= max ? distance : null;
+}
+
+/**
+ * Scores one word against a query; null when no requested field matches.
+ * Used by the API and the client fallback so both rank identically.
+ */
+export function scoreWord(
+  word: Word,
+  options: SearchOptions,
+): SearchResult | null {
+  const raw = normalizeChakma(options.query.trim());
+  if (!raw) return null;
+  const lower = raw.toLowerCase();
+  const fields = options.search_fields?.length
+    ? options.search_fields
+    : SEARCH_FIELDS;
+  const fuzzy = options.fuzzy !== false && !options.exact_match;
+
+  const kinds: Partial<Record<SearchField, SearchMatchKind>> = {};
+  const points: number[] = [];
+  for (const field of fields) {
+    const q = field === "chakma_word_script" ? raw : lower;
+    const kind = fieldTerms(word, field)
+      .map((term) => matchTerm(term, q))
+      .reduce(strongest, null);
+    if (kind && !(options.exact_match && kind !== "exact")) {
+      kinds[field] = kind;
+      points.push(MATCH_POINTS[kind] * FIELD_WEIGHTS[field]);
+      continue;
+    }
+    // Romanization varies by writer, so that field also matches fuzzily
+    if (fuzzy && field === "romanized_pronunciation") {
+      const typos = romanizedTypos(word.romanized_pronunciation, raw);
+      if (typos !== null) {
+        kinds[field] = "fuzzy";
+        points.push(MATCH_POINTS.fuzzy - 10 * typos);
+      }
+    }
+  }
+  if (!points.length) return null;
+
+  return {
+    word,
+    relevance_score:
+      Math.max(...points) + EXTRA_FIELD_BONUS * (points.length - 1),
+    matched_fields: Object.keys(kinds) as SearchField[],
+    match_kinds: kinds,
+  };
+}
+
+/**
+ * Returns the words matching `options.query` in any of the requested fields,
+ * best matches first: exact, then prefix, whole-word and substring hits, with
+ * the word's own fields ahead of its synonyms and antonyms, and fuzzy
+ * romanized matches last.
+ */
+export function searchDictionary(
+  words: Word[],
+  options: SearchOptions,
+): SearchResult[] {
+  const results = words
+    .map((word) => scoreWord(word, options))
+    .filter((result): result is SearchResult => result !== null);
+
+  // Array.prototype.sort is stable, so ties keep dataset order
+  results.sort((a, b) => b.relevance_score! - a.relevance_score!);
+  return options.max_results ? results.slice(0, options.max_results) : results;
+}
+
+/**
+ * "Did you mean" for a query without exact, prefix, whole-word or substring
+ * hits: the closest romanized or English headword, or null when nothing is
+ * close enough or the query already matched.
+ */
+export function suggestQuery(
+  words: Word[],
+  query: string,
+  results: SearchResult[],
+): string | null {
+  const hasDirectHit = results.some((r) =>
+    Object.values(r.match_kinds ?? {}).some((kind) => kind !== "fuzzy"),
+  );
+  const folded = foldRomanized(query);
+  if (hasDirectHit || folded.length < 3) return null;
+
+  const max = Math.max(1, maxTypos(folded));
+  let best: { term: string; distance: number } | null = null;
+  for (const word of words) {
+    for (const term of [
+      word.romanized_pronunciation,
+      word.english_translation,
+    ]) {
+      const distance = editDistance(foldRomanized(term), folded, max);
+      if (distance <= max && (!best || distance < best.distance)) {
+        best = { term, distance };
+      }
+    }
+  }
+  return best && best.term.toLowerCase() !== query.trim().toLowerCase()
+    ? best.term
+    : null;
+}
+
+export function paginate<T>(
+  items: T[],
+  page = 1,
+  perPage = DEFAULT_PER_PAGE,
+): PaginatedResponse<T> {
+  const start = (page - 1) * perPage;
+  return {
+    items: items.slice(start, start + perPage),
+    total_count: items.length,
+    page,
+    per_page: perPage,
+    has_next: start + perPage < items.length,
+    has_prev: page > 1,
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildTransliterationRules,
+  chakmaToRoman,
+  romanToChakma,
+} from "./transliteration";
+
+describe("romanToChakma", () => {
+  it("writes vowels as letters at the start and signs after consonants", () => {
+    expect(romanToChakma("ado")).toBe("𑄃𑄘𑄮");
+    expect(romanToChakma("agi")).toBe("𑄃𑄉𑄨");
+  });
+
+  it("kills a final consonant and joins clusters with the virama", () => {
+    expect(romanToChakma("jan")).toBe("𑄎𑄚𑄴");
+    expect(romanToChakma("kta")).toBe("\u{11107}\u{11133}\u{11116}");
+  });
+
+  it("matches the longest spelling and keeps other text", () => {
+    expect(romanToChakma("kha")).toBe("\u{11108}");
+    expect(romanToChakma("Ado, 12")).toBe("𑄃𑄘𑄮, 𑄷𑄸");
+  });
+});
+
+describe("chakmaToRoman", () => {
+  it("reads the inherent vowel unless a sign or killer follows", () => {
+    expect(chakmaToRoman("𑄃𑄘𑄮")).toBe("ado");
+    expect(chakmaToRoman("𑄎𑄚𑄴")).toBe("jan");
+    expect(chakmaToRoman("𑄞𑄛")).toBe("bhapa");
+  });
+
+  it("round-trips romanToChakma", () => {
+    for (const text of ["ado", "bin", "kta", "aoi", "pôraṃ", "chuu 3"]) {
+      expect(chakmaToRoman(romanToChakma(text))).toBe(text);
+    }
+  });
+});
+
+describe("buildTransliterationRules", () => {
+  it("lets characters override the default table", () => {
+    const rules = buildTransliterationRules([
+      { character_script: "\u{11127}", transliteration: "aw" },
+      { character_script: "\u{11107}", transliteration: "qa" },
+      { character_script: "\u{11108}" },
+    ]);
+    expect(romanToChakma("qaw", rules)).toBe("\u{11107}\u{11127}");
+    expect(chakmaToRoman("\u{11107}\u{11127}", rules)).toBe("qaw");
+    // The old spellings no longer convert
+    expect(romanToChakma("kô", rules)).toBe("kô");
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Romanized ↔ Chakma transliteration driven by a rule table. The default
+ * table can be overridden per character through `Character.transliteration`,
+ * so the mapping is maintained next to the character inventory.
+ */
+
+import type { Character } from "./types";
+import {
+  CHAKMA_MAAYYAA,
+  CHAKMA_VIRAMA,
+  isChakmaConsonant,
+  isChakmaIndependentVowel,
+  isChakmaMark,
+  isChakmaVirama,
+  isChakmaVowelSign,
+  normalizeChakma,
+} from "./chakma";
+
+export type TransliterationKind = "consonant" | "vowel" | "sign" | "symbol";
+
+export interface TransliterationRule {
+  /** Lowercase Latin spelling; consonants without their inherent vowel */
+  roman: string;
+  /** Chakma spelling; for vowels, the form written at the start of a syllable */
+  script: string;
+  kind: TransliterationKind;
+  /** Vowels only: the sign written after a consonant ("" for the inherent vowel) */
+  sign?: string;
+}
+
+const A = "\u{11103}";
+
+const consonant = (roman: string, code: number): TransliterationRule => ({
+  roman,
+  script: String.fromCodePoint(code),
+  kind: "consonant",
+});
+
+// Vowels without a letter of their own are written as A plus the sign
+const vowel = (
+  roman: string,
+  sign: string,
+  script = A + sign,
+): TransliterationRule => ({ roman, script, kind: "vowel", sign });
+
+export const DEFAULT_TRANSLITERATION: TransliterationRule[] = [
+  consonant("k", 0x11107),
+  consonant("kh", 0x11108),
+  consonant("g", 0x11109),
+  consonant("gh", 0x1110a),
+  consonant("ng", 0x1110b),
+  consonant("c", 0x1110c),
+  consonant("ch", 0x1110d),
+  consonant("j", 0x1110e),
+  consonant("jh", 0x1110f),
+  consonant("ny", 0x11110),
+  consonant("tt", 0x11111),
+  consonant("tth", 0x11112),
+  consonant("dd", 0x11113),
+  consonant("ddh", 0x11114),
+  consonant("nn", 0x11115),
+  consonant("t", 0x11116),
+  consonant("th", 0x11117),
+  consonant("d", 0x11118),
+  consonant("dh", 0x11119),
+  consonant("n", 0x1111a),
+  consonant("p", 0x1111b),
+  consonant("ph", 0x1111c),
+  consonant("b", 0x1111d),
+  consonant("bh", 0x1111e),
+  consonant("m", 0x1111f),
+  consonant("yy", 0x11120),
+  consonant("y", 0x11121),
+  consonant("r", 0x11122),
+  consonant("l", 0x11123),
+  consonant("w", 0x11124),
+  consonant("s", 0x11125),
+  consonant("h", 0x11126),
+  consonant("lh", 0x11144),
+  consonant("v", 0x11147),
+  vowel("a", "", A),
+  // VOWEL SIGN A, an open "o"; plain "o" is kept for the O sign
+  vowel("ô", "\u{11127}"),
+  vowel("i", "\u{11128}", "\u{11104}"),
+  vowel("ii", "\u{11129}"),
+  vowel("u", "\u{1112A}", "\u{11105}"),
+  vowel("uu", "\u{1112B}"),
+  vowel("e", "\u{1112C}", "\u{11106}"),
+  vowel("ai", "\u{1112D}"),
+  vowel("o", "\u{1112E}"),
+  vowel("au", "\u{1112F}"),
+  vowel("oi", "\u{11130}"),
+  { roman: "~", script: "\u{11100}", kind: "sign" },
+  { roman: "ṃ", script: "\u{11101}", kind: "sign" },
+  { roman: "ḥ", script: "\u{11102}", kind: "sign" },
+  ..."0123456789".split("").map(
+    (digit, i): TransliterationRule => ({
+      roman: digit,
+      script: String.fromCodePoint(0x11136 + i),
+      kind: "symbol",
+    }),
+  ),
+  { roman: "|", script: "\u{11141}", kind: "symbol" },
+  { roman: "||", script: "\u{11142}", kind: "symbol" },
+];
+
+const lastChar = (text: string) => [...text].pop()!;
+
+// Turns a character's script and transliteration into a rule, reusing the
+// other half of a vowel from the rule it replaces
+function characterRule(
+  script: string,
+  roman: string,
+  rules: TransliterationRule[],
+): TransliterationRule {
+  const chars = [...script];
+  if (isChakmaConsonant(lastChar(script))) {
+    // Written like romanized_name ("ka"); the inherent vowel is implied
+    return {
+      roman: roman.replace(/a$/, "") || roman,
+      script,
+      kind: "consonant",
+    };
+  }
+  if (chars.length === 1 && isChakmaVowelSign(script)) {
+    const current = rules.find((r) => r.sign === script);
+    return vowel(roman, script, current?.script);
+  }
+  if (isChakmaIndependentVowel(chars[0])) {
+    const current = rules.find(
+      (r) => r.kind === "vowel" && r.script === script,
+    );
+    return vowel(roman, current?.sign ?? chars.slice(1).join(""), script);
+  }
+  if (chars.every(isChakmaMark)) return { roman, script, kind: "sign" };
+  return { roman, script, kind: "symbol" };
+}
+
+/**
+ * The default table with every character that has a `transliteration`
+ * applied on top. An override replaces any rule with the same script or
+ * the same romanization.
+ */
+export function buildTransliterationRules(
+  characters: Pick<Character, "character_script" | "transliteration">[],
+): TransliterationRule[] {
+  let rules = DEFAULT_TRANSLITERATION;
+  for (const character of characters) {
+    const roman = character.transliteration?.trim().toLowerCase();
+    const script = normalizeChakma(character.character_script?.trim() ?? "");
+    if (!roman || !script) continue;
+    const rule = characterRule(script, roman, rules);
+    rules = rules
+      .filter(
+        (r) =>
+          r.roman !== rule.roman &&
+          r.script !== rule.script &&
+          !(rule.sign && r.sign === rule.sign),
+      )
+      .concat(rule);
+  }
+  return rules;
+}
+
+interface CompiledRules {
+  byRoman: Map<string, TransliterationRule>;
+  byScript: Map<string, TransliterationRule>;
+  bySign: Map<string, TransliterationRule>;
+  longestRoman: number;
+  longestScript: number;
+  inherent: string;
+}
+
+const compiled = new WeakMap<TransliterationRule[], CompiledRules>();
+
+function compile(rules: TransliterationRule[]): CompiledRules {
+  let result = compiled.get(rules);
+  if (result) return result;
+  result = {
+    byRoman: new Map(),
+    byScript: new Map(),
+    bySign: new Map(),
+    longestRoman: 0,
+    longestScript: 0,
+    inherent: "",
+  };
+  for (const rule of rules) {
+    result.byRoman.set(rule.roman, rule);
+    result.byScript.set(rule.script, rule);
+    if (rule.sign) result.bySign.set(rule.sign, rule);
+    if (rule.sign === "") result.inherent = rule.roman;
+    result.longestRoman = Math.max(result.longestRoman, rule.roman.length);
+    result.longestScript = Math.max(
+      result.longestScript,
+      [...rule.script].length,
+    );
+  }
+  compiled.set(rules, result);
+  return result;
+}
+
+/**
+ * Converts romanized text to Chakma script, longest spelling first. A vowel
+ * after a consonant becomes its sign, consonants in a row are joined with
+ * the virama, and a consonant with no vowel after it gets the visible
+ * killer (MAAYYAA). Text the table does not cover is kept as is.
+ */
+export function romanToChakma(
+  text: string,
+  rules: TransliterationRule[] = DEFAULT_TRANSLITERATION,
+): string {
+  const { byRoman, longestRoman } = compile(rules);
+  let out = "";
+  // Whether the last consonant still waits for its vowel
+  let pending = false;
+  const kill = () => {
+    if (pending) out += CHAKMA_MAAYYAA;
+    pending = false;
+  };
+
+  for (let i = 0; i < text.length; ) {
+    let rule: TransliterationRule | undefined;
+    let length = Math.min(longestRoman, text.length - i);
+    while (
+      length > 0 &&
+      !(rule = byRoman.get(text.slice(i, i + length).toLowerCase()))
+    ) {
+      length--;
+    }
+    if (!rule) {
+      kill();
+      out += text[i++];
+      continue;
+    }
+    i += length;
+    switch (rule.kind) {
+      case "consonant":
+        if (pending) out += CHAKMA_VIRAMA;
+        out += rule.script;
+        pending = true;
+        break;
+      case "vowel":
+        out += pending ? rule.sign : rule.script;
+        pending = false;
+        break;
+      case "sign":
+        // Marks such as the anusvara follow the inherent vowel
+        out += rule.script;
+        pending = false;
+        break;
+      default:
+        kill();
+        out += rule.script;
+    }
+  }
+  kill();
+  return normalizeChakma(out);
+}
+
+/**
+ * Converts Chakma script back to the spelling `romanToChakma` reads. A
+ * consonant without a vowel sign or killer carries the inherent vowel.
+ * Text the table does not cover is kept as is.
+ */
+export function chakmaToRoman(
+  text: string,
+  rules: TransliterationRule[] = DEFAULT_TRANSLITERATION,
+): string {
+  const { byScript, bySign, longestScript, inherent } = compile(rules);
+  const chars = [...normalizeChakma(text)];
+  let out = "";
+
+  for (let i = 0; i < chars.length; ) {
+    let rule: TransliterationRule | undefined;
+    let length = Math.min(longestScript, chars.length - i);
+    while (
+      length > 0 &&
+      !(rule = byScript.get(chars.slice(i, i + length).join("")))
+    ) {
+      length--;
+    }
+    if (!rule) {
+      // A sign without a letter, or a character outside the table
+      const ch = chars[i++];
+      out += bySign.get(ch)?.roman ?? (isChakmaVirama(ch) ? "" : ch);
+      continue;
+    }
+    i += length;
+    out += rule.roman;
+    if (rule.kind !== "consonant") continue;
+
+    const next = chars[i];
+    if (next && isChakmaVirama(next)) {
+      i++;
+    } else if (next && bySign.has(next)) {
+      out += bySign.get(next)!.roman;
+      i++;
+    } else {
+      out += inherent;
+    }
+  }
+  return out;
+}
@@ -3,6 +3,10 @@
  * Comprehensive type definitions for dictionary, characters, and user preferences
  */
 
+import type { EditorRole } from './roles';
+
+export type { EditorRole } from './roles';
+
 // Core dictionary word structure
 export interface Word {
   id: string;
@@ -39,8 +43,11 @@ export interface Character {
   character_type: CharacterType;
   audio_pronunciation_url?: string;
   romanized_name: string;
+  /** Latin spelling typed to get this character; overrides the default transliteration table */
+  transliteration?: string;
   description?: string;
   created_at?: string;
+  updated_at?: string;
 }
 
 export type CharacterType = 
@@ -60,6 +67,7 @@ export interface UserPreferences {
   
   // Audio settings
   sound_volume: number; // 0-100
+  offline_audio: OfflineAudioScope;
   
   // User data
   favorites: string[]; // Array of word IDs
@@ -78,8 +86,28 @@ export interface CustomColors {
   background_color?: string;
 }
 
+// Which words' pronunciation files are saved for offline use
+export type OfflineAudioScope = 'off' | 'favorites' | 'all';
+
 export type FontSize = 'xs' | 'sm' | 'base' | 'lg' | 'xl' | '2xl' | '3xl';
 
+// A named word list kept on the device, e.g. "Week 3 vocab"; entries are in
+// the list's own order
+export interface WordCollection {
+  id: string;
+  name: string;
+  description?: string;
+  entries: CollectionEntry[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CollectionEntry {
+  word_id: string;
+  note?: string;
+  added_at: string;
+}
+
 export interface SearchHistoryItem {
   query: string;
   timestamp: string;
@@ -129,6 +157,7 @@ export interface SearchOptions {
   search_fields?: SearchField[];
   max_results?: number;
   exact_match?: boolean;
+  fuzzy?: boolean; // typo-tolerant romanized matching, on unless exact_match
 }
 
 export type SearchField = 
@@ -138,10 +167,19 @@ export type SearchField =
   | 'synonyms'
   | 'antonyms';
 
+// How a query matched a field, strongest first
+export type SearchMatchKind = 'exact' | 'prefix' | 'word' | 'substring' | 'fuzzy';
+
 export interface SearchResult {
   word: Word;
   relevance_score?: number;
   matched_fields: SearchField[];
+  match_kinds?: Partial<Record<SearchField, SearchMatchKind>>;
+}
+
+// GET /api/search payload; `suggestion` is set when nothing matched exactly
+export interface SearchResponse extends PaginatedResponse<SearchResult> {
+  suggestion?: string;
 }
 
 // Developer console types
@@ -151,6 +189,14 @@ export interface DeveloperConsoleAccess {
   last_access?: string;
 }
 
+// Issued by POST /api/auth/login; sent back as `Authorization: Bearer <token>`
+export interface AuthSession {
+  token: string;
+  username: string;
+  role: EditorRole;
+  expires_at: string;
+}
+
 export interface AITranslationSuggestion {
   id: string;
   english_word: string;
@@ -160,12 +206,113 @@ export interface AITranslationSuggestion {
 }
 
 export interface ContentManagementOperation {
+  id?: string;
   type: 'create' | 'update' | 'delete';
   target: 'word' | 'character';
   data?: Partial<Word | Character>;
   target_id?: string;
   performed_by?: string;
   timestamp: string;
+  // Audit log snapshots: null on the side where the record did not exist
+  before?: Word | Character | null;
+  after?: Word | Character | null;
+  changed_fields?: string[];
+}
+
+// Filters accepted by GET /api/audit; dates are ISO strings, both inclusive
+export interface AuditLogQuery {
+  target?: ContentManagementOperation['target'];
+  target_id?: string;
+  actor?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+// Body of POST /api/words/:id/revert: restores the word as recorded by an
+// audit entry, after the change by default or before it with version 'before'
+export interface WordRevertRequest {
+  entry_id: string;
+  version?: 'before' | 'after';
+}
+
+// Word fields a spreadsheet column can be mapped to
+export type WordImportField =
+  | 'chakma_word_script'
+  | 'romanized_pronunciation'
+  | 'english_translation'
+  | 'example_sentence'
+  | 'etymology'
+  | 'synonyms'
+  | 'antonyms'
+  | 'audio_pronunciation_url';
+
+// Body of POST /api/words/import. `mapping` assigns a field (or null to
+// ignore) to each column by index and defaults to a guess from the header row.
+// Rows whose Chakma script already exists are skipped unless on_duplicate is
+// 'update'; with dry_run nothing is saved.
+export interface WordImportRequest {
+  content: string;
+  delimiter?: ',' | '\t';
+  mapping?: (WordImportField | null)[];
+  on_duplicate?: 'skip' | 'update';
+  dry_run?: boolean;
+}
+
+export interface WordImportRow {
+  row: number; // spreadsheet row, the header being row 1
+  action: 'create' | 'update' | 'skip' | 'error';
+  word?: Word; // as saved, for creates and updates
+  before?: Word; // the existing word, for updates and skips
+  changed_fields?: string[];
+  errors?: Record<string, string>;
+  // Fields whose Chakma text is saved normalized rather than as in the file
+  warnings?: Record<string, string>;
+}
+
+export interface WordImportResult {
+  dry_run: boolean;
+  rows: WordImportRow[];
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+// One step of POST /api/words/batch; `revision` works like If-Match on the
+// single-word routes
+export type WordBatchOperation =
+  | { op: 'create'; word: Omit<Word, 'id'> & { id?: string } }
+  | { op: 'update'; id: string; changes: Partial<Word>; revision?: string }
+  | { op: 'delete'; id: string; revision?: string };
+
+// Body of POST /api/words/batch. Operations apply in order and are saved as
+// one commit, so the site rebuilds once; if any fails, nothing is saved.
+export interface WordBatchRequest {
+  operations: WordBatchOperation[];
+}
+
+export interface WordBatchResult {
+  // One per operation; `word` is null for deletes
+  results: { op: WordBatchOperation['op']; id: string; word: Word | null }[];
+}
+
+// A deleted word, as reported by GET /api/words/changes
+export interface WordTombstone {
+  id: string;
+  deleted_at: string;
+}
+
+// Payload of GET /api/words/changes?since=<cursor>. Words count as created
+// when their created_at is at or after `since`. `cursor` is the time of the
+// newest change seen; passing it back returns that change again, so applying
+// a feed twice must be harmless.
+export interface WordChanges {
+  since: string | null;
+  cursor: string | null;
+  created: Word[];
+  updated: Word[];
+  deleted: WordTombstone[];
 }
 
 // API response types
@@ -176,6 +323,28 @@ export interface ApiResponse<T> {
   message?: string;
 }
 
+// Returned when a batch operation fails, with that operation's status (e.g.
+// 409 and `conflict` for a stale revision); `failed_index` points into
+// `operations`
+export interface WordBatchErrorResponse extends ApiResponse<never> {
+  failed_index: number;
+  conflict?: RevisionConflictResponse<Word>['conflict'];
+}
+
+// Returned with HTTP 409 when an If-Match revision is stale
+export interface RevisionConflictResponse<T> extends ApiResponse<never> {
+  conflict: {
+    current: T | null; // null when the record has been deleted
+    revision: string | null;
+  };
+}
+
+// Returned with HTTP 400 when a payload fails schema validation; `error`
+// summarizes `field_errors`, which are keyed by dotted field path
+export interface ValidationErrorResponse extends ApiResponse<never> {
+  field_errors: Record<string, string>;
+}
+
 export interface PaginatedResponse<T> {
   items: T[];
   total_count: number;
@@ -222,13 +391,14 @@ export interface ThemeProviderProps {
 // Utility types
 export type PartialWord = Partial<Word> & Pick<Word, 'chakma_word_script' | 'english_translation'>;
 export type WordFormData = Omit<Word, 'id' | 'created_at' | 'updated_at'>;
-export type CharacterFormData = Omit<Character, 'id' | 'created_at'>;
+export type CharacterFormData = Omit<Character, 'id' | 'created_at' | 'updated_at'>;
 
 // Constants
 export const DEFAULT_USER_PREFERENCES: UserPreferences = {
   theme: 'light',
   font_size: 'base',
   sound_volume: 70,
+  offline_audio: 'off',
   favorites: [],
   search_history: [],
 };
@@ -242,14 +412,6 @@ export const AI_SUGGESTIONS_PER_DAY = 10;
 export const DEVELOPER_CONSOLE_CONFIG = {
   required_taps: 10,
   tap_timeout: 5000, // 5 seconds
-  valid_passwords: [
-    'frezanz120913',
-    'frezanz1212312123',
-    'frezanz448538',
-    'ujc448538',
-    'ujc120913',
-    'ujc04485380'
-  ],
 } as const;
 
 // Social media and contact information
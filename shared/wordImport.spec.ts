@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+  guessColumnMapping,
+  parseDelimited,
+  rowToWordFields,
+} from "./wordImport";
+
+describe("parseDelimited", () => {
+  it("handles quoted cells, CRLF line ends, a BOM and blank lines", () => {
+    const text =
+      '\uFEFFword,example\r\n"a, b","she said ""hi""\nthen left"\r\n\r\nc,\n';
+    expect(parseDelimited(text)).toEqual([
+      ["word", "example"],
+      ["a, b", 'she said "hi"\nthen left'],
+      ["c", ""],
+    ]);
+  });
+
+  it("detects tab-separated files from the header", () => {
+    expect(parseDelimited("a\tb,c\n1\t2,3")).toEqual([
+      ["a", "b,c"],
+      ["1", "2,3"],
+    ]);
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("matches header spellings and maps each field once", () => {
+    expect(
+      guessColumnMapping(["Chakma Script", "English", "Notes", "meaning"]),
+    ).toEqual(["chakma_word_script", "english_translation", null, null]);
+  });
+});
+
+describe("rowToWordFields", () => {
+  it("skips empty cells and splits related terms by script", () => {
+    expect(
+      rowToWordFields(
+        ["\u{11107}", " ", "home; \u{1110C}\u{11122}"],
+        ["chakma_word_script", "english_translation", "synonyms"],
+      ),
+    ).toEqual({
+      chakma_word_script: "\u{11107}",
+      synonyms: [
+        { term: "home", language: "english" },
+        { term: "\u{1110C}\u{11122}", language: "chakma" },
+      ],
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Spreadsheet import: parses CSV/TSV exports and maps their columns onto
+ * word fields. Shared by POST /api/words/import and the console, which uses
+ * it to offer a column mapping before anything is sent.
+ */
+
+import type { RelatedTerm, Word, WordImportField } from "./types";
+import { isChakma } from "./chakma";
+
+export const WORD_IMPORT_FIELDS = [
+  "chakma_word_script",
+  "romanized_pronunciation",
+  "english_translation",
+  "example_sentence",
+  "etymology",
+  "synonyms",
+  "antonyms",
+  "audio_pronunciation_url",
+] as const satisfies readonly WordImportField[];
+
+// Header spellings recognized per field, compared without case or punctuation
+const HEADER_ALIASES: Record<WordImportField, string[]> = {
+  chakma_word_script: [
+    "chakmawordscript",
+    "chakmascript",
+    "chakmaword",
+    "chakma",
+    "script",
+    "word",
+  ],
+  romanized_pronunciation: [
+    "romanizedpronunciation",
+    "romanized",
+    "romanization",
+    "pronunciation",
+    "roman",
+  ],
+  english_translation: [
+    "englishtranslation",
+    "english",
+    "translation",
+    "meaning",
+  ],
+  example_sentence: ["examplesentence", "example", "sentence"],
+  etymology: ["etymology", "origin"],
+  synonyms: ["synonyms", "synonym"],
+  antonyms: ["antonyms", "antonym"],
+  audio_pronunciation_url: ["audiopronunciationurl", "audio", "audiourl"],
+};
+
+export type Delimiter = "," | "\t";
+
+/** Tab when the header line has one, otherwise comma */
+export function detectDelimiter(text: string): Delimiter {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  return firstLine.includes("\t") ? "\t" : ",";
+}
+
+/**
+ * Splits CSV or TSV text into rows of cells. Quoted cells may contain the
+ * delimiter, newlines and doubled quotes; blank lines are dropped.
+ */
+export function parseDelimited(
+  text: string,
+  delimiter: Delimiter = detectDelimiter(text),
+): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((c) => c.trim())) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  // A spreadsheet's byte order mark would otherwise stick to the first header
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && !cell) {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) endRow();
+  return rows;
+}
+
+const headerKey = (header: string) =>
+  header.toLowerCase().replace(/[^a-z]/g, "");
+
+/**
+ * Suggests a field for each header, by index; null for columns that match
+ * nothing. Each field is assigned to at most one column.
+ */
+export function guessColumnMapping(
+  headers: string[],
+): (WordImportField | null)[] {
+  const used = new Set<WordImportField>();
+  return headers.map((header) => {
+    const key = headerKey(header);
+    const field = WORD_IMPORT_FIELDS.find(
+      (f): f is WordImportField =>
+        !used.has(f) && HEADER_ALIASES[f].includes(key),
+    );
+    if (!field) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+// "a; b" or "a, b"; each term's language is read from its script
+function parseRelatedTerms(cell: string): RelatedTerm[] {
+  return cell
+    .split(/[;,]/)
+    .map((term) => term.trim())
+    .filter(Boolean)
+    .map((term) => ({
+      term,
+      language: [...term].some(isChakma) ? "chakma" : "english",
+    }));
+}
+
+/**
+ * Turns data rows into word fields using a column mapping (by index, as
+ * from `guessColumnMapping`). Empty cells are left out, so an update never
+ * clears a field the spreadsheet does not fill.
+ */
+export function rowToWordFields(
+  row: string[],
+  mapping: (WordImportField | null)[],
+): Partial<Word> {
+  const fields: Partial<Word> = {};
+  mapping.forEach((field, index) => {
+    const value = row[index]?.trim();
+    if (!field || !value) return;
+    if (field === "synonyms" || field === "antonyms") {
+      fields[field] = parseRelatedTerms(value);
+    } else {
+      fields[field] = value;
+    }
+  });
+  return fields;
+}
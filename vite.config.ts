@@ -1,6 +1,8 @@
 import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
 import { createServer } from "./server";
 
 // https://vitejs.dev/config/
@@ -16,7 +18,7 @@ export default defineConfig(({ mode }) => ({
   build: {
     outDir: "dist/spa",
   },
-  plugins: [react(), expressPlugin()],
+  plugins: [react(), expressPlugin(), precachePlugin()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./client"),
@@ -37,3 +39,59 @@ function expressPlugin(): Plugin {
     },
   };
 }
+
+// Built files the service worker downloads on install. Other HTML pages,
+// source maps and host config files (_redirects, robots.txt) are left out.
+const PRECACHE_PATTERN = /\.(js|css|json|svg|png|ico|webp|woff2?)$/;
+
+function listFiles(dir: string, base = dir): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listFiles(full, base);
+    return [path.relative(base, full).split(path.sep).join("/")];
+  });
+}
+
+function precachePlugin(): Plugin {
+  let outDir = "";
+  return {
+    name: "precache-plugin",
+    apply: "build",
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    // After public/ has been copied, so sw.js and the icons are in outDir
+    closeBundle() {
+      const swPath = path.join(outDir, "sw.js");
+      if (!fs.existsSync(swPath)) return;
+
+      const files = listFiles(outDir)
+        .filter((file) => file !== "sw.js")
+        .filter((file) => file === "index.html" || PRECACHE_PATTERN.test(file))
+        .sort();
+      const hash = createHash("sha256");
+      files.forEach((file) => {
+        hash.update(file);
+        hash.update(fs.readFileSync(path.join(outDir, file)));
+      });
+      const version = hash.digest("hex").slice(0, 12);
+      const urls = ["/", ...files.map((file) => `/${file}`)];
+
+      const source = fs.readFileSync(swPath, "utf8");
+      const built = source
+        .replace(
+          /^const PRECACHE_VERSION = .*;$/m,
+          `const PRECACHE_VERSION = ${JSON.stringify(version)};`,
+        )
+        .replace(
+          /^const PRECACHE_URLS = .*;$/m,
+          `const PRECACHE_URLS = ${JSON.stringify(urls, null, 2)};`,
+        );
+      if (!built.includes(version) || !built.includes('"/index.html"')) {
+        throw new Error("sw.js is missing PRECACHE_VERSION or PRECACHE_URLS");
+      }
+      fs.writeFileSync(swPath, built);
+      this.info?.(`precached ${urls.length} files as version ${version}`);
+    },
+  };
+}